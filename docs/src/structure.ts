@@ -495,6 +495,11 @@ export const structure = [
             block: 'component',
             source: 'ModalServiceType',
           },
+          {
+            type: 'block',
+            block: 'component',
+            source: 'PortalHost',
+          },
         ],
       },
     ],
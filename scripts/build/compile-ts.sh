@@ -2,3 +2,8 @@
 
 env=${1}
 tsc -p ./tsconfig.${env}.json
+
+# CLI is run with Node.js, so that it is compiled to CommonJS separately
+if [[ "${env}" = prod ]]; then
+  tsc -p ./tsconfig.cli.json
+fi
@@ -1,5 +1,7 @@
 import { task } from 'gulp';
 
 import './tasks/docs/docs';
+import './tasks/codegen/typings';
+import './tasks/codegen/precompile';
 
 task('default', ['docs']);
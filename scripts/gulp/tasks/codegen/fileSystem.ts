@@ -0,0 +1,17 @@
+import {
+  readFileSync,
+  writeFileSync,
+} from 'fs';
+import { CliFileSystem } from '../../../../src/framework/cli/cli.service';
+
+export const fileSystem: CliFileSystem = {
+  readFile: (path: string): string => readFileSync(path, 'utf8'),
+  writeFile: (path: string, content: string): void => writeFileSync(path, content),
+};
+
+/**
+ * @return (string[]) - arguments passed to a gulp task, e.g `['--mapping', './mapping.json']`
+ */
+export function getTaskArguments(name: string): string[] {
+  return process.argv.slice(process.argv.indexOf(name) + 1);
+}
@@ -0,0 +1,17 @@
+import { task } from 'gulp';
+import { precompileMapping } from '../../../../src/framework/cli/cli.service';
+import {
+  fileSystem,
+  getTaskArguments,
+} from './fileSystem';
+
+/**
+ * Same as `ui-kitten precompile-mapping` command of the published package.
+ *
+ * Usage:
+ *
+ * gulp precompile-mapping --mapping ./mapping.json --custom ./custom-mapping.json --output ./styles.json
+ */
+task('precompile-mapping', () => {
+  precompileMapping(getTaskArguments('precompile-mapping'), fileSystem);
+});
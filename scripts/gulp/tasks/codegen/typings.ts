@@ -0,0 +1,17 @@
+import { task } from 'gulp';
+import { generateTypings } from '../../../../src/framework/cli/cli.service';
+import {
+  fileSystem,
+  getTaskArguments,
+} from './fileSystem';
+
+/**
+ * Same as `ui-kitten generate-typings` command of the published package.
+ *
+ * Usage:
+ *
+ * gulp generate-typings --mapping ./mapping.json --theme ./theme.json --output ./mapping.d.ts
+ */
+task('generate-typings', () => {
+  generateTypings(getTaskArguments('generate-typings'), fileSystem);
+});
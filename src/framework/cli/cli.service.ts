@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { createTypings } from '../theme/codegen/codegen.service';
+import { createPrecompiledStyles } from '../theme/mapping/mapping.service';
+
+/**
+ * Reads and writes files on behalf of CLI commands, so that they do not depend on Node.js at runtime.
+ */
+export interface CliFileSystem {
+  readFile: (path: string) => string;
+  writeFile: (path: string, content: string) => void;
+}
+
+type CliCommand = (args: string[], fileSystem: CliFileSystem) => void;
+
+const commands: { [name: string]: CliCommand } = {
+  'generate-typings': generateTypings,
+  'precompile-mapping': precompileMapping,
+};
+
+/**
+ * Runs a command of `ui-kitten` CLI
+ *
+ * @param args (string[]) - command name followed by its arguments,
+ * e.g `['generate-typings', '--mapping', './mapping.json']`
+ * @param fileSystem (CliFileSystem) - used to read inputs and write results
+ */
+export function runCommand([name, ...args]: string[], fileSystem: CliFileSystem): void {
+  const command: CliCommand | undefined = commands[name];
+
+  if (!command) {
+    throw new Error([
+      `ui-kitten: unknown command "${name}".`,
+      `Available commands: ${Object.keys(commands).join(', ')}`,
+    ].join('\n'));
+  }
+
+  command(args, fileSystem);
+}
+
+/**
+ * Generates `.d.ts` file with appearance, variant and theme key types.
+ *
+ * Usage:
+ *
+ * ui-kitten generate-typings --mapping ./mapping.json --theme ./theme.json --output ./mapping.d.ts
+ */
+export function generateTypings(args: string[], fileSystem: CliFileSystem): void {
+  const mappingPath: string | undefined = getArgument(args, '--mapping');
+  const themePath: string | undefined = getArgument(args, '--theme');
+  const outputPath: string = getArgument(args, '--output') || './mapping.d.ts';
+
+  if (!mappingPath) {
+    throw new Error('generate-typings: --mapping argument is required');
+  }
+
+  const mapping = readJson(fileSystem, mappingPath);
+  const theme = themePath ? readJson(fileSystem, themePath) : undefined;
+
+  fileSystem.writeFile(outputPath, createTypings(mapping, theme));
+}
+
+/**
+ * Processes mapping and writes styles to be provided to ApplicationProvider with `styles` property.
+ *
+ * Usage:
+ *
+ * ui-kitten precompile-mapping --mapping ./mapping.json --custom ./custom-mapping.json --output ./styles.json
+ */
+export function precompileMapping(args: string[], fileSystem: CliFileSystem): void {
+  const mappingPath: string | undefined = getArgument(args, '--mapping');
+  const customPath: string | undefined = getArgument(args, '--custom');
+  const outputPath: string = getArgument(args, '--output') || './styles.json';
+
+  if (!mappingPath) {
+    throw new Error('precompile-mapping: --mapping argument is required');
+  }
+
+  const mapping = readJson(fileSystem, mappingPath);
+  const customMapping = customPath ? readJson(fileSystem, customPath) : undefined;
+
+  fileSystem.writeFile(outputPath, JSON.stringify(createPrecompiledStyles(mapping, customMapping)));
+}
+
+function getArgument(args: string[], name: string): string | undefined {
+  const index: number = args.indexOf(name);
+
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function readJson(fileSystem: CliFileSystem, path: string): any {
+  return JSON.parse(fileSystem.readFile(path));
+}
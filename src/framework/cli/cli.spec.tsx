@@ -0,0 +1,65 @@
+import {
+  CliFileSystem,
+  runCommand,
+} from './cli.service';
+import { createPrecompiledStyles } from '../theme/mapping/mapping.service';
+import {
+  mapping,
+  theme,
+} from '../theme/support/tests';
+
+describe('@cli: command checks', () => {
+
+  const createFileSystem = (files: { [path: string]: any }): CliFileSystem & { written: Map<string, string> } => {
+    const written: Map<string, string> = new Map();
+
+    return {
+      written,
+      readFile: (path: string): string => JSON.stringify(files[path]),
+      writeFile: (path: string, content: string): void => {
+        written.set(path, content);
+      },
+    };
+  };
+
+  it('* generates typings', () => {
+    const fileSystem = createFileSystem({ './mapping.json': mapping, './theme.json': theme });
+
+    runCommand([
+      'generate-typings',
+      '--mapping', './mapping.json',
+      '--theme', './theme.json',
+      '--output', './types.d.ts',
+    ], fileSystem);
+
+    expect(fileSystem.written.get('./types.d.ts')).toContain('export type RadioSize =');
+    expect(fileSystem.written.get('./types.d.ts')).toContain('export type ThemeKey =');
+  });
+
+  it('* requires mapping to generate typings', () => {
+    const fileSystem = createFileSystem({});
+
+    expect(() => runCommand(['generate-typings'], fileSystem)).toThrowError('--mapping argument is required');
+  });
+
+  it('* precompiles mapping', () => {
+    const fileSystem = createFileSystem({ './mapping.json': mapping });
+
+    runCommand([
+      'precompile-mapping',
+      '--mapping', './mapping.json',
+      '--output', './styles.json',
+    ], fileSystem);
+
+    expect(JSON.parse(fileSystem.written.get('./styles.json'))).toEqual(createPrecompiledStyles(mapping));
+  });
+
+  it('* throws for unknown command', () => {
+    const fileSystem = createFileSystem({});
+
+    expect(() => runCommand(['generate-typing'], fileSystem)).toThrowError(
+      'Available commands: generate-typings, precompile-mapping',
+    );
+  });
+
+});
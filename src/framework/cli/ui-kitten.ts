@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+/// <reference types="node" />
+
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import {
+  readFileSync,
+  writeFileSync,
+} from 'fs';
+import {
+  CliFileSystem,
+  runCommand,
+} from './cli.service';
+
+const fileSystem: CliFileSystem = {
+  readFile: (path: string): string => readFileSync(path, 'utf8'),
+  writeFile: (path: string, content: string): void => writeFileSync(path, content),
+};
+
+try {
+  runCommand(process.argv.slice(2), fileSystem);
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
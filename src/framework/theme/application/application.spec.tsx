@@ -19,7 +19,14 @@ import {
   theme,
   themeInverse,
 } from '../support/tests';
-import { ThemeType } from '@kitten/theme';
+import {
+  styled,
+  StyledComponentProps,
+  ThemeType,
+} from '@kitten/theme';
+import { CustomSchemaType } from '@eva-design/dss';
+import { createPrecompiledStyles } from '../mapping/mapping.service';
+import { PrecompiledStyles } from '../mapping/type';
 
 describe('@app: application wrapper check', () => {
 
@@ -50,6 +57,63 @@ describe('@app: application wrapper check', () => {
     }
   }
 
+  const customMapping: CustomSchemaType = {
+    components: {
+      Radio: {
+        meta: mapping.components.Radio.meta,
+        appearances: {
+          default: {
+            mapping: {
+              borderWidth: 4,
+            },
+          },
+        },
+      },
+    },
+  };
+
+  interface CustomMappingAppState {
+    customMapping: CustomSchemaType;
+  }
+
+  class StyledMock extends React.Component<StyledComponentProps> {
+
+    static styledComponentName: string = 'Radio';
+
+    public render(): React.ReactNode {
+      return (
+        <View/>
+      );
+    }
+  }
+
+  const StyledConsumer = styled<StyledComponentProps>(StyledMock);
+
+  class CustomMappingApp extends React.Component<any, CustomMappingAppState> {
+
+    public state: CustomMappingAppState = {
+      customMapping: undefined,
+    };
+
+    private onSwitchMapping = (): void => {
+      this.setState({ customMapping });
+    };
+
+    public render(): React.ReactNode {
+      return (
+        <View>
+          <Button title='Switch Mapping' onPress={this.onSwitchMapping}/>
+          <Mock
+            mapping={mapping}
+            customMapping={this.state.customMapping}
+            theme={theme}>
+            <StyledConsumer/>
+          </Mock>
+        </View>
+      );
+    }
+  }
+
   const Mock = (props?: ApplicationProviderProps): React.ReactElement<ApplicationProviderProps> => {
     return (
       <ApplicationProvider {...props} />
@@ -97,4 +161,153 @@ describe('@app: application wrapper check', () => {
     expect(stringify(output.props.theme)).toBe(JSON.stringify(themeInverse));
   });
 
+  it('* custom mapping switching checks', () => {
+    const application: RenderAPI = render(<CustomMappingApp/>);
+
+    const styledComponent: ReactTestInstance = application.getByType(StyledMock);
+    expect(styledComponent.props.themedStyle.borderWidth).toEqual(2);
+
+    fireEvent(application.getByType(Button), 'press');
+
+    const styledComponentChanged: ReactTestInstance = application.getByType(StyledMock);
+    expect(styledComponentChanged.props.themedStyle.borderWidth).toEqual(4);
+  });
+
+  it('* reuses processed styles for the same mapping', () => {
+    const application: RenderAPI = render(
+      <Mock
+        mapping={mapping}
+        theme={theme}
+      />,
+    );
+
+    const { state: initialState } = application.getByType(ApplicationProvider).instance;
+
+    application.update(
+      <Mock
+        mapping={mapping}
+        customMapping={customMapping}
+        theme={theme}
+      />,
+    );
+
+    application.update(
+      <Mock
+        mapping={mapping}
+        theme={theme}
+      />,
+    );
+
+    const { state } = application.getByType(ApplicationProvider).instance;
+
+    expect(state.styles).toBe(initialState.styles);
+  });
+
+  it('* renders once per mapping change', () => {
+    const application: RenderAPI = render(
+      <Mock
+        mapping={mapping}
+        theme={theme}
+      />,
+    );
+
+    const renderSpy = jest.spyOn(ApplicationProvider.prototype, 'render');
+
+    application.update(
+      <Mock
+        mapping={mapping}
+        customMapping={customMapping}
+        theme={theme}
+      />,
+    );
+
+    expect(renderSpy).toHaveBeenCalledTimes(1);
+
+    renderSpy.mockRestore();
+  });
+
+  it('* reports missing mapping', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const application: RenderAPI = render(
+      <Mock theme={theme}/>,
+    );
+
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0]).toContain('Either `mapping` or precompiled `styles` property should be provided');
+
+    application.unmount();
+    error.mockRestore();
+  });
+
+  it('* provides theme selected by mode', () => {
+    const application: RenderAPI = render(
+      <Mock
+        mapping={mapping}
+        themes={{ light: theme, dark: themeInverse }}
+        mode='dark'>
+        <StyledConsumer/>
+      </Mock>,
+    );
+
+    const styledComponent: ReactTestInstance = application.getByType(StyledMock);
+
+    expect(styledComponent.props.theme).toBe(themeInverse);
+  });
+
+  describe('* precompiled styles', () => {
+
+    const precompiledStyles: PrecompiledStyles = createPrecompiledStyles(mapping, customMapping);
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('* provides precompiled styles', () => {
+      const application: RenderAPI = render(
+        <Mock
+          styles={precompiledStyles}
+          theme={theme}>
+          <StyledConsumer/>
+        </Mock>,
+      );
+
+      const { state } = application.getByType(ApplicationProvider).instance;
+      const styledComponent: ReactTestInstance = application.getByType(StyledMock);
+
+      expect(state.styles).toBe(precompiledStyles.styles);
+      expect(styledComponent.props.themedStyle.borderWidth).toEqual(4);
+    });
+
+    it('* does not warn if precompiled styles are up to date', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      render(
+        <Mock
+          mapping={mapping}
+          customMapping={customMapping}
+          styles={precompiledStyles}
+          theme={theme}
+        />,
+      );
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('* warns if precompiled styles are stale', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      render(
+        <Mock
+          mapping={mapping}
+          styles={precompiledStyles}
+          theme={theme}
+        />,
+      );
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('precompiled styles are stale'));
+    });
+
+  });
+
 });
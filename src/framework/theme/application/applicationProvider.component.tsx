@@ -6,7 +6,6 @@
 
 import React from 'react';
 import merge from 'lodash.merge';
-import { SchemaProcessor } from '@eva-design/processor';
 import {
   CustomSchemaType,
   SchemaType,
@@ -15,19 +14,58 @@ import {
 import { StyleProvider } from '../style/styleProvider.component';
 import { ThemeProviderProps } from '../theme/themeProvider.component';
 import { ModalPanel } from '../modal/modalPanel.component';
+import {
+  DialogRenderer,
+  ModalService,
+} from '../modal/modal.service';
 import { ThemeType } from '../theme/type';
+import {
+  getMappingHash,
+  processMapping,
+  ProcessedMapping,
+} from '../mapping/mapping.service';
+import { PrecompiledStyles } from '../mapping/type';
+import { DiagnosticsService } from '../diagnostics/diagnostics.service';
+import { DiagnosticsConfig } from '../diagnostics/type';
+import { Breakpoints } from '../breakpoint/type';
 
 interface ComponentProps {
-  mapping: SchemaType;
+  mapping?: SchemaType;
   customMapping?: CustomSchemaType;
+  styles?: PrecompiledStyles;
+  diagnostics?: DiagnosticsConfig;
+  breakpoints?: Breakpoints;
+  dialogRenderer?: DialogRenderer;
 }
 
 export type ApplicationProviderProps = ComponentProps & ThemeProviderProps;
 
 interface State {
+  // Props the rest of state is derived from
+  mapping: SchemaType;
+  customMapping: CustomSchemaType;
+  precompiled: PrecompiledStyles;
+  diagnosticsConfig: DiagnosticsConfig;
+
+  schema: SchemaType;
   styles: ThemeStyleType;
+  diagnostics: DiagnosticsService;
 }
 
+type StylesState = Pick<State, 'mapping' | 'customMapping' | 'precompiled' | 'schema' | 'styles'>;
+type DiagnosticsState = Pick<State, 'diagnosticsConfig' | 'diagnostics'>;
+
+/**
+ * Processed mappings, keyed by mapping and custom mapping objects.
+ * Weak, so that mappings which are no longer used (e.g created inline) are garbage collected.
+ */
+const processedMappings: WeakMap<SchemaType, WeakMap<CustomSchemaType, ProcessedMapping>> = new WeakMap();
+
+// Used as a key of mapping processed without customization
+const EMPTY_CUSTOM_MAPPING: CustomSchemaType = { components: {} };
+
+const DEFAULT_DIAGNOSTICS_CONFIG: DiagnosticsConfig = { mode: 'warn' };
+
 /**
  * ApplicationProvider component is designed to be a root of the application.
  *
@@ -39,13 +77,48 @@ interface State {
  *
  * @property {SchemaType} mapping - Determines the mapping for basic components.
  * This is designed to be provided by developers team and can be imported from npm package (e.g. `@eva-design/eva`).
+ * Required, unless precompiled `styles` are provided.
  *
  * @property {CustomSchemaType} customMapping - Determines the customization mapping.
  * This is merged with `mapping` property and designed to be used components customization.
  *
+ * Both `mapping` and `customMapping` may be changed at runtime.
+ * Processed styles are memoized by mapping objects, so switching back to previously used mapping is cheap.
+ *
+ * @property {PrecompiledStyles} styles - Determines styles processed at build time
+ * with `ui-kitten precompile-mapping` command.
+ * Used instead of processing `mapping` at runtime. In case `mapping` is provided as well,
+ * warns in dev mode once styles are stale against it and `customMapping`.
+ *
+ * @property {DiagnosticsConfig} diagnostics - Determines how style configuration issues are reported.
+ * `mode` can be `warn` (default), `throw` or `silent`.
+ * `onIssue` is called with structured `StyleIssue` containing component name, invalid prop, valid options
+ * and a suggestion, if any. In `warn` mode, each issue is reported once per component and configuration.
+ *
+ * @property {Breakpoints} breakpoints - Determines minimal window widths used by `breakpoints` blocks of mapping.
+ * Default is `{ tablet: 768, desktop: 1024 }`. Components are re-styled once window width crosses one of them.
+ *
+ * @property {DialogRenderer} dialogRenderer - Determines the function to render dialogs
+ * shown with `ModalService.alert`, `confirm` and `prompt`, e.g `renderDialog` of UI Kitten.
+ * Dialogs are not shown without it. Is registered before children are mounted,
+ * so that they may show dialogs once mounted.
+ *
  * @property {ThemeType} theme - Determines the theme for basic components.
  * This is designed to be provided by developers team and can be imported from npm package (e.g. `@eva-design/eva`).
  *
+ * @property {ColorSchemeThemes} themes - Determines the pair of `light` and `dark` themes for basic components.
+ * Takes priority over `theme` property. The one of them is selected depending on `mode` property.
+ *
+ * @property {string} mode - Determines which of `themes` is used.
+ * Can be `light`, `dark` or `system`. In `system` mode, theme is switched along with platform color scheme.
+ * Default is `system`.
+ *
+ * @property {ColorSchemeSource} colorSchemeSource - Determines the source of platform color scheme.
+ * Default is based on react-native `Appearance` API.
+ *
+ * @property {Density} density - Determines how dense basic components are.
+ * Can be `compact`, `comfortable` or `spacious`. Default is `comfortable`.
+ *
  * @property {React.ReactNode} children - Determines application root component.
  *
  * @property ThemeProviderProps
@@ -71,36 +144,266 @@ interface State {
  *   }
  * }
  * ```
+ *
+ * @example ApplicationProvider Color Scheme example
+ *
+ * ```
+ * import React from 'react';
+ * import { mapping, light, dark } from '@eva-design/eva';
+ * import { ApplicationProvider } from 'react-native-ui-kitten';
+ * import { Application } from './path-to/root.component';
+ *
+ * export default class App extends React.Component {
+ *
+ *   public render(): React.ReactNode {
+ *     // Switches between light and dark themes along with platform color scheme
+ *
+ *     return (
+ *       <ApplicationProvider
+ *         mapping={mapping}
+ *         themes={{ light, dark }}
+ *         mode='system'>
+ *         <Application/>
+ *       </ApplicationProvider>
+ *     );
+ *   }
+ * }
+ * ```
+ *
+ * @example ApplicationProvider Precompiled Styles example
+ *
+ * ```
+ * import React from 'react';
+ * import { mapping, light as lightTheme } from '@eva-design/eva';
+ * import { ApplicationProvider } from 'react-native-ui-kitten';
+ * import { Application } from './path-to/root.component';
+ *
+ * // Created with `npx ui-kitten precompile-mapping --mapping ./mapping.json --output ./styles.json`
+ * import styles from './path-to/styles.json';
+ *
+ * export default class App extends React.Component {
+ *
+ *   public render(): React.ReactNode {
+ *     // Mapping is not processed at runtime, but is used by `CustomMappingProvider`
+ *     // and to check styles are up to date in dev mode
+ *
+ *     return (
+ *       <ApplicationProvider
+ *         mapping={mapping}
+ *         styles={styles}
+ *         theme={lightTheme}>
+ *         <Application/>
+ *       </ApplicationProvider>
+ *     );
+ *   }
+ * }
+ * ```
+ *
+ * @example ApplicationProvider Diagnostics example
+ *
+ * ```
+ * import React from 'react';
+ * import { mapping, light as lightTheme } from '@eva-design/eva';
+ * import { ApplicationProvider, StyleIssue } from 'react-native-ui-kitten';
+ * import { Application } from './path-to/root.component';
+ *
+ * export default class App extends React.Component {
+ *
+ *   private onStyleIssue = (issue: StyleIssue): void => {
+ *     // e.g { component: 'Button', prop: 'status', value: 'primry', suggestion: 'primary', ... }
+ *   };
+ *
+ *   public render(): React.ReactNode {
+ *     // Throws on invalid component configuration. Useful to be used in tests or CI
+ *
+ *     return (
+ *       <ApplicationProvider
+ *         mapping={mapping}
+ *         theme={lightTheme}
+ *         diagnostics={{ mode: 'throw', onIssue: this.onStyleIssue }}>
+ *         <Application/>
+ *       </ApplicationProvider>
+ *     );
+ *   }
+ * }
+ * ```
  */
 
 export class ApplicationProvider extends React.Component<ApplicationProviderProps, State> {
 
-  private schemaProcessor: SchemaProcessor = new SchemaProcessor();
+  public state: State = {
+    ...createStylesState(this.props),
+    ...createDiagnosticsState(this.props),
+  };
+
+  private removeDialogRenderer: () => void;
 
   constructor(props: ApplicationProviderProps) {
     super(props);
-    const { mapping, customMapping, theme } = this.props;
+    this.validateMapping(props);
+    this.registerDialogRenderer(props.dialogRenderer);
+  }
+
+  public static getDerivedStateFromProps(props: ApplicationProviderProps, state: State): Partial<State> | null {
+    const isStylesChanged: boolean = props.mapping !== state.mapping
+      || props.customMapping !== state.customMapping
+      || props.styles !== state.precompiled;
 
-    const styles: ThemeStyleType = this.createStyles(mapping, customMapping);
+    const isDiagnosticsChanged: boolean = isDiagnosticsConfigChanged(state.diagnosticsConfig, props.diagnostics);
 
-    this.state = { styles };
+    if (!isStylesChanged && !isDiagnosticsChanged) {
+      return null;
+    }
+
+    return {
+      ...(isStylesChanged ? createStylesState(props) : {}),
+      ...(isDiagnosticsChanged ? createDiagnosticsState(props) : {}),
+    };
   }
 
-  private createStyles = (mapping: SchemaType, custom: CustomSchemaType): ThemeStyleType => {
-    const customizedMapping: SchemaType = merge({}, mapping, custom);
+  public componentDidMount(): void {
+    this.validate();
+  }
+
+  public componentDidUpdate(prevProps: ApplicationProviderProps, prevState: State): void {
+    if (this.props.mapping !== prevProps.mapping || this.props.styles !== prevProps.styles) {
+      this.validateMapping(this.props);
+    }
+
+    if (this.state.schema !== prevState.schema) {
+      this.validate();
+    }
+
+    if (this.props.dialogRenderer !== prevProps.dialogRenderer) {
+      this.removeDialogRenderer();
+      this.registerDialogRenderer(this.props.dialogRenderer);
+    }
+  }
 
-    return this.schemaProcessor.process(customizedMapping);
+  public componentWillUnmount(): void {
+    this.removeDialogRenderer();
+  }
+
+  private registerDialogRenderer = (renderer: DialogRenderer | undefined): void => {
+    this.removeDialogRenderer = renderer ? ModalService.registerDialogRenderer(renderer) : () => null;
+  };
+
+  private validateMapping = (props: ApplicationProviderProps): void => {
+    if (props.mapping || props.styles) {
+      return;
+    }
+
+    const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
+
+    const message: string = [
+      'ApplicationProvider: unsupported configuration.',
+      'Either `mapping` or precompiled `styles` property should be provided, e.g `mapping` of `@eva-design/eva`.',
+      `📖 Documentation: ${docRoot}/guides/install-ui-kitten#configure-application-root`,
+    ].join('\n');
+
+    console.error(message);
+  };
+
+  private validate = (): void => {
+    const { styles } = this.props;
+
+    if (__DEV__ && styles && this.state.schema) {
+      this.validatePrecompiledStyles(this.state.schema, styles);
+    }
+  };
+
+  private validatePrecompiledStyles = (schema: SchemaType, precompiled: PrecompiledStyles): void => {
+    const hash: string = getMappingHash(schema);
+
+    if (precompiled.version === schema.version && precompiled.hash === hash) {
+      return;
+    }
+
+    const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
+
+    const message: string = [
+      'ApplicationProvider: precompiled styles are stale.',
+      `Styles are created from mapping v${precompiled.version} (${precompiled.hash}),`,
+      `while the current one is v${schema.version} (${hash}).`,
+      'Run `ui-kitten precompile-mapping` command once again to update them.',
+      `📖 Documentation: ${docRoot}/design-system/customize-mapping`,
+    ].join('\n');
+
+    console.warn(message);
   };
 
   public render(): React.ReactNode {
+    const { mapping, customMapping, styles, diagnostics, dialogRenderer, children, ...themeProps } = this.props;
+
     return (
       <StyleProvider
-        theme={this.props.theme}
-        styles={this.state.styles}>
+        {...themeProps}
+        mapping={this.state.schema}
+        styles={this.state.styles}
+        diagnostics={this.state.diagnostics}>
         <ModalPanel>
-          {this.props.children}
+          {children}
         </ModalPanel>
       </StyleProvider>
     );
   }
 }
+
+function createStylesState(props: ApplicationProviderProps): StylesState {
+  const { mapping, customMapping, styles } = props;
+
+  // Nothing to process, which is reported by ApplicationProvider
+  if (!mapping && !styles) {
+    return { mapping, customMapping, precompiled: styles, schema: undefined, styles: {} };
+  }
+
+  const processedMapping: ProcessedMapping = styles
+    ? createPrecompiledMapping(mapping, customMapping, styles)
+    : createProcessedMapping(mapping, customMapping);
+
+  return {
+    mapping,
+    customMapping,
+    precompiled: styles,
+    ...processedMapping,
+  };
+}
+
+function createProcessedMapping(mapping: SchemaType, custom: CustomSchemaType): ProcessedMapping {
+  const customKey: CustomSchemaType = custom || EMPTY_CUSTOM_MAPPING;
+  const mappingCache: WeakMap<CustomSchemaType, ProcessedMapping> = processedMappings.get(mapping) || new WeakMap();
+
+  if (!mappingCache.has(customKey)) {
+    const schema: SchemaType = merge({}, mapping, custom);
+
+    processedMappings.set(mapping, mappingCache.set(customKey, { schema, styles: processMapping(schema) }));
+  }
+
+  return mappingCache.get(customKey);
+}
+
+function createPrecompiledMapping(mapping: SchemaType,
+                                  custom: CustomSchemaType,
+                                  precompiled: PrecompiledStyles): ProcessedMapping {
+
+  // Mapping is optional along with precompiled styles, and is used to validate them only
+  const schema: SchemaType = mapping && merge({}, mapping, custom);
+
+  return { schema, styles: precompiled.styles };
+}
+
+function createDiagnosticsState(props: ApplicationProviderProps): DiagnosticsState {
+  const config: DiagnosticsConfig = props.diagnostics || DEFAULT_DIAGNOSTICS_CONFIG;
+
+  return {
+    diagnosticsConfig: config,
+    diagnostics: new DiagnosticsService(config),
+  };
+}
+
+// Config object may be created inline, so compare it by values to keep reported issues
+function isDiagnosticsConfigChanged(prev: DiagnosticsConfig,
+                                    next: DiagnosticsConfig = DEFAULT_DIAGNOSTICS_CONFIG): boolean {
+
+  return prev.mode !== next.mode || prev.onIssue !== next.onIssue;
+}
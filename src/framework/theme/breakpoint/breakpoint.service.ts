@@ -0,0 +1,26 @@
+import { Breakpoints } from './type';
+
+export const DEFAULT_BREAKPOINTS: Breakpoints = {
+  tablet: 768,
+  desktop: 1024,
+};
+
+/**
+ * Finds breakpoints matching window width
+ *
+ * Example:
+ *
+ * breakpoints = { tablet: 768, desktop: 1024 }, width = 800
+ *
+ * will return ['tablet']
+ *
+ * @param breakpoints (Breakpoints) - breakpoints to match
+ * @param width (number) - window width
+ *
+ * @return (string[]) - names of matching breakpoints, ordered by width ascending
+ */
+export function getMatchingBreakpoints(breakpoints: Breakpoints, width: number): string[] {
+  return Object.keys(breakpoints)
+    .filter((name: string): boolean => width >= breakpoints[name])
+    .sort((lhs: string, rhs: string): number => breakpoints[lhs] - breakpoints[rhs]);
+}
@@ -0,0 +1,170 @@
+import React from 'react';
+import merge from 'lodash.merge';
+import {
+  Dimensions,
+  ScaledSize,
+  View,
+  ViewProps,
+} from 'react-native';
+import {
+  render,
+  RenderAPI,
+} from 'react-native-testing-library';
+import { act } from 'react-test-renderer';
+import { SchemaType } from '@eva-design/dss';
+import { BreakpointContext } from './breakpointContext';
+import { BreakpointProvider } from './breakpointProvider.component';
+import { getMatchingBreakpoints } from './breakpoint.service';
+import { StyleProvider } from '../style/styleProvider.component';
+import {
+  styled,
+  StyledComponentProps,
+} from '../style/styleConsumer.component';
+import { resolveConditionalParameters } from '../style/style.service';
+import { processMapping } from '../mapping/mapping.service';
+import {
+  mapping,
+  theme,
+} from '../support/tests';
+
+const consumerTestId: string = '@breakpoint/consumer';
+
+const setWindowWidth = (width: number): void => {
+  const window: ScaledSize = { ...Dimensions.get('window'), width };
+
+  act(() => {
+    Dimensions.set({ window, screen: window });
+  });
+};
+
+class Test extends React.Component<StyledComponentProps & ViewProps> {
+  static styledComponentName: string = 'Radio';
+
+  public render(): React.ReactElement<ViewProps> {
+    return (
+      <View testID={consumerTestId} style={this.props.themedStyle}/>
+    );
+  }
+}
+
+const StyledTest = styled<ViewProps>(Test);
+
+describe('@breakpoint: service methods checks', () => {
+
+  it('* finds matching breakpoints ordered by width', () => {
+    const value: string[] = getMatchingBreakpoints({ desktop: 1024, tablet: 768, phone: 0 }, 1200);
+
+    expect(value).toEqual(['phone', 'tablet', 'desktop']);
+  });
+
+  it('* finds no breakpoints for narrow window', () => {
+    const value: string[] = getMatchingBreakpoints({ tablet: 768, desktop: 1024 }, 320);
+
+    expect(value).toEqual([]);
+  });
+
+  it('* resolves conditional parameters in order', () => {
+    const value = resolveConditionalParameters({
+      borderWidth: 1,
+      borderRadius: 4,
+      'platform.ios.borderWidth': 2,
+      'platform.android.borderWidth': 3,
+      'breakpoints.tablet.borderWidth': 4,
+      'breakpoints.tablet.borderRadius': 8,
+      'breakpoints.desktop.borderRadius': 12,
+    }, 'ios', ['tablet']);
+
+    expect(value).toEqual({
+      borderWidth: 4,
+      borderRadius: 8,
+    });
+  });
+
+});
+
+describe('@breakpoint: ui component checks', () => {
+
+  const initialWindow: ScaledSize = Dimensions.get('window');
+
+  const conditionalMapping: SchemaType = merge({}, mapping, {
+    components: {
+      Radio: {
+        appearances: {
+          default: {
+            mapping: {
+              borderWidth: 1,
+              platform: {
+                ios: {
+                  borderWidth: 2,
+                },
+                android: {
+                  borderWidth: 3,
+                },
+              },
+              breakpoints: {
+                tablet: {
+                  borderWidth: 4,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const Tree = (): React.ReactElement => {
+    return (
+      <StyleProvider
+        mapping={conditionalMapping}
+        styles={processMapping(conditionalMapping)}
+        theme={theme}
+        breakpoints={{ tablet: 768 }}>
+        <StyledTest/>
+      </StyleProvider>
+    );
+  };
+
+  afterEach(() => {
+    setWindowWidth(initialWindow.width);
+  });
+
+  it('* applies platform parameters', () => {
+    const component: RenderAPI = render(
+      <Tree/>,
+    );
+
+    const { style } = component.getByTestId(consumerTestId).props;
+
+    expect(style.borderWidth).toEqual(2);
+  });
+
+  it('* applies breakpoint parameters once window is resized', () => {
+    const component: RenderAPI = render(
+      <Tree/>,
+    );
+
+    setWindowWidth(800);
+
+    const { style } = component.getByTestId(consumerTestId).props;
+
+    expect(style.borderWidth).toEqual(4);
+  });
+
+  it('* updates matching breakpoints only once crossing a breakpoint', () => {
+    const consumer = jest.fn(() => null);
+
+    render(
+      <BreakpointProvider breakpoints={{ tablet: 768 }}>
+        <BreakpointContext.Consumer>{consumer}</BreakpointContext.Consumer>
+      </BreakpointProvider>,
+    );
+
+    setWindowWidth(760);
+    setWindowWidth(800);
+    setWindowWidth(900);
+
+    expect(consumer.mock.calls).toEqual([[[]], [['tablet']]]);
+  });
+
+});
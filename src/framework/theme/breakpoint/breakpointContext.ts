@@ -0,0 +1,5 @@
+import React from 'react';
+
+const defaultValue: string[] = [];
+
+export const BreakpointContext: React.Context<string[]> = React.createContext(defaultValue);
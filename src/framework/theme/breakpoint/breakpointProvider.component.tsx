@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import {
+  Dimensions,
+  ScaledSize,
+} from 'react-native';
+import { BreakpointContext } from './breakpointContext';
+import {
+  DEFAULT_BREAKPOINTS,
+  getMatchingBreakpoints,
+} from './breakpoint.service';
+import { Breakpoints } from './type';
+
+export interface BreakpointProviderProps {
+  breakpoints?: Breakpoints;
+  children?: React.ReactNode;
+}
+
+interface State {
+  matches: string[];
+}
+
+interface DimensionsChangeEvent {
+  window: ScaledSize;
+}
+
+/**
+ * Provides breakpoints matching current window width.
+ * Updates them only once window dimensions cross a breakpoint, so that resizing within one does not re-render.
+ *
+ * @property {Breakpoints} breakpoints - Determines minimal window widths of breakpoints.
+ * Default is `{ tablet: 768, desktop: 1024 }`.
+ */
+export class BreakpointProvider extends React.Component<BreakpointProviderProps, State> {
+
+  static defaultProps: Partial<BreakpointProviderProps> = {
+    breakpoints: DEFAULT_BREAKPOINTS,
+  };
+
+  public state: State = {
+    matches: this.getMatches(Dimensions.get('window').width),
+  };
+
+  public componentDidMount(): void {
+    Dimensions.addEventListener('change', this.onDimensionsChange);
+  }
+
+  public componentDidUpdate(prevProps: BreakpointProviderProps): void {
+    if (this.props.breakpoints !== prevProps.breakpoints) {
+      this.updateMatches(Dimensions.get('window').width);
+    }
+  }
+
+  public componentWillUnmount(): void {
+    Dimensions.removeEventListener('change', this.onDimensionsChange);
+  }
+
+  private onDimensionsChange = ({ window }: DimensionsChangeEvent): void => {
+    this.updateMatches(window.width);
+  };
+
+  private updateMatches = (width: number): void => {
+    const matches: string[] = this.getMatches(width);
+
+    if (matches.join() !== this.state.matches.join()) {
+      this.setState({ matches });
+    }
+  };
+
+  private getMatches(width: number): string[] {
+    return getMatchingBreakpoints(this.props.breakpoints, width);
+  }
+
+  public render(): React.ReactNode {
+    return (
+      <BreakpointContext.Provider value={this.state.matches}>
+        {this.props.children}
+      </BreakpointContext.Provider>
+    );
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Minimal window widths of breakpoints, keyed by breakpoint name.
+ */
+export interface Breakpoints {
+  [name: string]: number;
+}
@@ -0,0 +1,70 @@
+import {
+  ControlMetaType,
+  SchemaType,
+} from '@eva-design/dss';
+import { ThemeType } from '../theme/type';
+
+const HEADER: string = [
+  '/**',
+  ' * This file is generated from mapping and theme. Do not edit it manually.',
+  ' */',
+].join('\n');
+
+/**
+ * Creates `.d.ts` file content containing string-literal union types for appearances
+ * and variant groups of each of mapping components, and for keys of the theme.
+ *
+ * Example:
+ *
+ * Button meta = { appearances: { filled, outline }, variantGroups: { size: { small } } }
+ * theme = { 'color-primary-500': '#3366FF' }
+ *
+ * will return
+ *
+ * export type ButtonAppearance = 'filled' | 'outline';
+ * export type ButtonSize = 'small';
+ * export type ThemeKey = 'color-primary-500';
+ *
+ * @param mapping (SchemaType) - mapping to generate component types from
+ * @param theme (ThemeType) - theme to generate theme key type from. Optional
+ *
+ * @return (string) - typings file content
+ */
+export function createTypings(mapping: SchemaType, theme?: ThemeType): string {
+  const componentTypes: string[] = Object.keys(mapping.components).map((component: string): string => {
+    return createComponentTypes(component, mapping.components[component].meta);
+  });
+
+  const themeTypes: string[] = theme ? [createUnionType('ThemeKey', Object.keys(theme))] : [];
+
+  return [HEADER, ...componentTypes, ...themeTypes].join('\n\n') + '\n';
+}
+
+function createComponentTypes(component: string, meta: ControlMetaType): string {
+  const appearanceType: string = createUnionType(`${component}Appearance`, Object.keys(meta.appearances));
+
+  const variantTypes: string[] = Object.keys(meta.variantGroups).map((group: string): string => {
+    return createUnionType(`${component}${toPascalCase(group)}`, Object.keys(meta.variantGroups[group]));
+  });
+
+  return [appearanceType, ...variantTypes].join('\n');
+}
+
+function createUnionType(name: string, values: string[]): string {
+  if (values.length === 0) {
+    return `export type ${name} = never;`;
+  }
+
+  const members: string[] = values.map((value: string): string => {
+    return `  | '${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+  });
+
+  return [`export type ${name} =`, ...members].join('\n') + ';';
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[-_\s]+/)
+    .map((part: string): string => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
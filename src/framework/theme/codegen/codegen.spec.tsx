@@ -0,0 +1,59 @@
+import { SchemaType } from '@eva-design/dss';
+import { createTypings } from './codegen.service';
+import {
+  mapping,
+  theme,
+} from '../support/tests';
+
+describe('@codegen: typings generation checks', () => {
+
+  it('* creates appearance and variant types', () => {
+    const typings: string = createTypings(mapping);
+
+    expect(typings).toContain([
+      'export type RadioAppearance =',
+      '  | \'default\';',
+    ].join('\n'));
+
+    expect(typings).toContain([
+      'export type RadioSize =',
+      '  | \'small\'',
+      '  | \'medium\'',
+      '  | \'large\';',
+    ].join('\n'));
+
+    expect(typings).toContain([
+      'export type RadioStatus =',
+      '  | \'error\';',
+    ].join('\n'));
+
+    expect(typings).not.toContain('ThemeKey');
+  });
+
+  it('* creates theme key type', () => {
+    const typings: string = createTypings(mapping, theme);
+
+    expect(typings).toContain([
+      'export type ThemeKey =',
+      ...Object.keys(theme).map((key: string) => `  | '${key}'`),
+    ].join('\n'));
+  });
+
+  it('* creates never type for empty variant group', () => {
+    const emptyMapping: SchemaType | any = {
+      components: {
+        Divider: {
+          meta: {
+            appearances: { default: { default: true } },
+            variantGroups: { 'line-style': {} },
+          },
+        },
+      },
+    };
+
+    const typings: string = createTypings(emptyMapping);
+
+    expect(typings).toContain('export type DividerLineStyle = never;');
+  });
+
+});
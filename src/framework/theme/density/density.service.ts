@@ -0,0 +1,67 @@
+import {
+  Density,
+  DensityScale,
+} from './type';
+import { StyleType } from '../style/type';
+
+/**
+ * Multipliers of spacing (paddings and min heights) and text (font sizes and line heights) parameters.
+ * `comfortable` keeps values provided by mapping.
+ */
+export const DENSITY_SCALES: { [density in Density]: DensityScale } = {
+  compact: { spacing: 0.75, text: 0.875 },
+  comfortable: { spacing: 1, text: 1 },
+  spacious: { spacing: 1.25, text: 1.125 },
+};
+
+const SPACING_PATTERNS: RegExp[] = [/padding/i, /^minHeight$/];
+const TEXT_PATTERNS: RegExp[] = [/fontSize$/i, /lineHeight$/i];
+
+/**
+ * Scales numeric spacing and text parameters of style
+ *
+ * Example:
+ *
+ * style = { paddingHorizontal: 16, minHeight: 40, textFontSize: 16, borderRadius: 4 }
+ * density = 'compact'
+ *
+ * will return { paddingHorizontal: 12, minHeight: 30, textFontSize: 14, borderRadius: 4 }
+ *
+ * @param style (StyleType) - themed style
+ * @param density (Density) - density to apply
+ *
+ * @return (StyleType) - scaled style. The same object for `comfortable` density
+ */
+export function applyDensity(style: StyleType, density: Density): StyleType {
+  const scale: DensityScale = DENSITY_SCALES[density] || DENSITY_SCALES.comfortable;
+
+  if (scale === DENSITY_SCALES.comfortable) {
+    return style;
+  }
+
+  return Object.keys(style).reduce((acc: StyleType, key: string): StyleType => {
+    const value: any = style[key];
+
+    if (typeof value !== 'number') {
+      return { ...acc, [key]: value };
+    }
+
+    const multiplier: number = getMultiplier(key, scale);
+
+    return { ...acc, [key]: multiplier === 1 ? value : Math.round(value * multiplier) };
+  }, {});
+}
+
+function getMultiplier(key: string, scale: DensityScale): number {
+  const matches = (pattern: RegExp): boolean => pattern.test(key);
+
+  if (SPACING_PATTERNS.some(matches)) {
+    return scale.spacing;
+  }
+
+  if (TEXT_PATTERNS.some(matches)) {
+    return scale.text;
+  }
+
+  return 1;
+}
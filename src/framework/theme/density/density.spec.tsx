@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+  View,
+  ViewProps,
+} from 'react-native';
+import {
+  render,
+  RenderAPI,
+} from 'react-native-testing-library';
+import { applyDensity } from './density.service';
+import { Density } from './type';
+import { StyleProvider } from '../style/styleProvider.component';
+import { ThemeProvider } from '../theme/themeProvider.component';
+import {
+  styled,
+  StyledComponentProps,
+} from '../style/styleConsumer.component';
+import { StyleType } from '../style/type';
+import {
+  styles,
+  theme,
+} from '../support/tests';
+
+const consumerTestId: string = '@density/consumer';
+
+class Test extends React.Component<StyledComponentProps & ViewProps> {
+  static styledComponentName: string = 'Radio';
+
+  public render(): React.ReactElement<ViewProps> {
+    return (
+      <View testID={consumerTestId} style={this.props.themedStyle}/>
+    );
+  }
+}
+
+const StyledTest = styled<ViewProps>(Test);
+
+describe('@density: service methods checks', () => {
+
+  const style: StyleType = {
+    paddingHorizontal: 16,
+    minHeight: 40,
+    textFontSize: 16,
+    textLineHeight: 24,
+    borderRadius: 4,
+    backgroundColor: '#3366FF',
+  };
+
+  it('* scales spacing and text parameters', () => {
+    expect(applyDensity(style, 'compact')).toEqual({
+      paddingHorizontal: 12,
+      minHeight: 30,
+      textFontSize: 14,
+      textLineHeight: 21,
+      borderRadius: 4,
+      backgroundColor: '#3366FF',
+    });
+
+    expect(applyDensity(style, 'spacious')).toEqual({
+      paddingHorizontal: 20,
+      minHeight: 50,
+      textFontSize: 18,
+      textLineHeight: 27,
+      borderRadius: 4,
+      backgroundColor: '#3366FF',
+    });
+  });
+
+  it('* keeps style for comfortable density', () => {
+    expect(applyDensity(style, 'comfortable')).toBe(style);
+  });
+
+});
+
+describe('@density: ui component checks', () => {
+
+  const renderStyle = (element: React.ReactElement): StyleType => {
+    const component: RenderAPI = render(element);
+
+    return component.getByTestId(consumerTestId).props.style;
+  };
+
+  const renderWithDensity = (density?: Density): StyleType => {
+    return renderStyle(
+      <StyleProvider styles={styles} theme={theme} density={density}>
+        <StyledTest/>
+      </StyleProvider>,
+    );
+  };
+
+  it('* applies density to styled components', () => {
+    const defaultStyle: StyleType = renderWithDensity();
+    const compactStyle: StyleType = renderWithDensity('compact');
+
+    expect(defaultStyle.textFontSize).toBeGreaterThan(0);
+    expect(compactStyle.textFontSize).toEqual(Math.round(defaultStyle.textFontSize * 0.875));
+    expect(compactStyle.borderWidth).toEqual(defaultStyle.borderWidth);
+  });
+
+  it('* inherits density of parent provider', () => {
+    const compactStyle: StyleType = renderWithDensity('compact');
+
+    const nestedStyle: StyleType = renderStyle(
+      <StyleProvider styles={styles} theme={theme} density='compact'>
+        <ThemeProvider theme={{}}>
+          <StyledTest/>
+        </ThemeProvider>
+      </StyleProvider>,
+    );
+
+    expect(nestedStyle.textFontSize).toEqual(compactStyle.textFontSize);
+  });
+
+});
@@ -0,0 +1,6 @@
+import React from 'react';
+import { Density } from './type';
+
+const defaultValue: Density = 'comfortable';
+
+export const DensityContext: React.Context<Density> = React.createContext<Density>(defaultValue);
@@ -0,0 +1,6 @@
+export type Density = 'compact' | 'comfortable' | 'spacious';
+
+export interface DensityScale {
+  spacing: number;
+  text: number;
+}
@@ -0,0 +1,123 @@
+import {
+  DiagnosticsConfig,
+  StyleIssue,
+  StyleIssueType,
+} from './type';
+
+// Issues making a component unable to render at all
+const ERROR_ISSUES: StyleIssueType[] = [
+  StyleIssueType.UNKNOWN_COMPONENT,
+];
+
+/**
+ * Reports style configuration issues.
+ *
+ * In `warn` mode, each of issues is reported once per component and configuration,
+ * so that misconfigured component does not spam console on every render.
+ * Issues making a component unable to render are logged as errors.
+ *
+ * In `throw` and `silent` modes, issues are reported each time they occur,
+ * so that a component is never rendered with invalid configuration.
+ */
+export class DiagnosticsService {
+
+  private readonly config: DiagnosticsConfig;
+  private readonly reportedIssues: Set<string> = new Set();
+
+  constructor(config: DiagnosticsConfig) {
+    this.config = config;
+  }
+
+  public report(issue: StyleIssue): void {
+    if (this.config.mode === 'warn' && this.isReported(issue)) {
+      return;
+    }
+
+    if (this.config.onIssue) {
+      this.config.onIssue(issue);
+    }
+
+    switch (this.config.mode) {
+      case 'throw':
+        throw new Error(issue.message);
+      case 'warn':
+        this.log(issue);
+        return;
+      case 'silent':
+        return;
+    }
+  }
+
+  private isReported(issue: StyleIssue): boolean {
+    const key: string = this.createIssueKey(issue);
+
+    if (this.reportedIssues.has(key)) {
+      return true;
+    }
+
+    this.reportedIssues.add(key);
+
+    return false;
+  }
+
+  private log(issue: StyleIssue): void {
+    if (ERROR_ISSUES.includes(issue.type)) {
+      console.error(issue.message);
+    } else {
+      console.warn(issue.message);
+    }
+  }
+
+  private createIssueKey(issue: StyleIssue): string {
+    return [issue.component, issue.type, issue.prop, JSON.stringify(issue.value)].join('|');
+  }
+}
+
+export const defaultDiagnostics: DiagnosticsService = new DiagnosticsService({ mode: 'warn' });
+
+/**
+ * Finds the closest of `options` to a `value`
+ *
+ * Example:
+ *
+ * value = 'filed', options = ['filled', 'outline', 'ghost']
+ *
+ * will return 'filled'
+ *
+ * @param value (string) - misspelled value
+ * @param options (string[]) - valid options
+ *
+ * @return (string | undefined) - the closest option if it is similar enough
+ */
+export function findSuggestion(value: any, options: string[]): string | undefined {
+  const source: string = `${value}`.toLowerCase();
+  const maxDistance: number = Math.max(2, Math.floor(source.length / 3));
+
+  const [suggestion] = options
+    .map((option: string) => ({ option, distance: getDistance(source, option.toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((lhs, rhs) => lhs.distance - rhs.distance);
+
+  return suggestion && suggestion.option;
+}
+
+/**
+ * @return (number) - Levenshtein distance between `lhs` and `rhs`
+ */
+function getDistance(lhs: string, rhs: string): number {
+  let previousRow: number[] = Array.from({ length: rhs.length + 1 }, (value, index: number) => index);
+
+  for (let i = 1; i <= lhs.length; i++) {
+    const row: number[] = [i];
+
+    for (let j = 1; j <= rhs.length; j++) {
+      const substitutionCost: number = lhs[i - 1] === rhs[j - 1] ? 0 : 1;
+
+      row[j] = Math.min(row[j - 1] + 1, previousRow[j] + 1, previousRow[j - 1] + substitutionCost);
+    }
+
+    previousRow = row;
+  }
+
+  return previousRow[rhs.length];
+}
@@ -0,0 +1,281 @@
+import React from 'react';
+import { View } from 'react-native';
+import { render } from 'react-native-testing-library';
+import { CustomSchemaType } from '@eva-design/dss';
+import {
+  DiagnosticsService,
+  findSuggestion,
+} from './diagnostics.service';
+import {
+  DiagnosticsConfig,
+  StyleIssue,
+  StyleIssueType,
+} from './type';
+import { ApplicationProvider } from '../application/applicationProvider.component';
+import {
+  styled,
+  StyledComponentProps,
+} from '../style/styleConsumer.component';
+import {
+  mapping,
+  theme,
+} from '../support/tests';
+
+interface TestComponentProps extends StyledComponentProps {
+  size?: string;
+  status?: string;
+}
+
+class Test extends React.Component<TestComponentProps> {
+
+  static styledComponentName: string = 'Radio';
+
+  public render(): React.ReactNode {
+    return (
+      <View/>
+    );
+  }
+}
+
+class UnknownTest extends React.Component<TestComponentProps> {
+
+  static styledComponentName: string = 'Radoi';
+
+  public render(): React.ReactNode {
+    return (
+      <View/>
+    );
+  }
+}
+
+const StyledTest = styled(Test);
+const StyledUnknownTest = styled(UnknownTest);
+
+interface TestAppProps extends TestComponentProps {
+  diagnostics: DiagnosticsConfig;
+  customMapping?: CustomSchemaType;
+  children?: React.ReactNode;
+}
+
+const TestApp = (props: TestAppProps): React.ReactElement<TestAppProps> => {
+  const { diagnostics, customMapping, children, ...restProps } = props;
+
+  return (
+    <ApplicationProvider
+      mapping={mapping}
+      customMapping={customMapping}
+      theme={theme}
+      diagnostics={diagnostics}>
+      {children || <StyledTest {...restProps}/>}
+    </ApplicationProvider>
+  );
+};
+
+const createIssue = (message: string): StyleIssue => {
+  return {
+    type: StyleIssueType.INVALID_VARIANT,
+    component: 'Radio',
+    prop: 'size',
+    value: 'smal',
+    options: ['small', 'medium', 'large'],
+    message,
+  };
+};
+
+describe('@diagnostics: service checks', () => {
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('* finds closest suggestion', () => {
+    expect(findSuggestion('smal', ['small', 'medium', 'large'])).toEqual('small');
+    expect(findSuggestion('LARGE', ['small', 'medium', 'large'])).toEqual('large');
+    expect(findSuggestion('giant', ['small', 'medium', 'large'])).toBeUndefined();
+  });
+
+  it('* reports issue once per component and configuration', () => {
+    const onIssue = jest.fn();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const service: DiagnosticsService = new DiagnosticsService({ mode: 'warn', onIssue });
+
+    service.report(createIssue('first'));
+    service.report(createIssue('second'));
+    service.report({ ...createIssue('third'), value: 'lage' });
+
+    expect(onIssue).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenLastCalledWith('third');
+  });
+
+  it('* throws in throw mode', () => {
+    const service: DiagnosticsService = new DiagnosticsService({ mode: 'throw' });
+
+    expect(() => service.report(createIssue('unsupported'))).toThrowError('unsupported');
+  });
+
+  it('* throws each time issue is reported in throw mode', () => {
+    const service: DiagnosticsService = new DiagnosticsService({ mode: 'throw' });
+
+    expect(() => service.report(createIssue('unsupported'))).toThrowError('unsupported');
+    expect(() => service.report(createIssue('unsupported'))).toThrowError('unsupported');
+  });
+
+  it('* logs unknown component as error in warn mode', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const service: DiagnosticsService = new DiagnosticsService({ mode: 'warn' });
+
+    service.report({ ...createIssue('unknown'), type: StyleIssueType.UNKNOWN_COMPONENT });
+
+    expect(error).toHaveBeenCalledWith('unknown');
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('* reports nothing to console in silent mode', () => {
+    const onIssue = jest.fn();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const service: DiagnosticsService = new DiagnosticsService({ mode: 'silent', onIssue });
+
+    service.report(createIssue('unsupported'));
+
+    expect(onIssue).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+});
+
+describe('@diagnostics: styled component checks', () => {
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('* reports invalid variant with suggestion', () => {
+    const onIssue = jest.fn();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const component = render(
+      <TestApp size='smal' diagnostics={{ mode: 'warn', onIssue }}/>,
+    );
+
+    component.update(
+      <TestApp size='smal' diagnostics={{ mode: 'warn', onIssue }}/>,
+    );
+
+    expect(onIssue).toHaveBeenCalledTimes(1);
+    expect(onIssue.mock.calls[0][0]).toMatchObject({
+      type: StyleIssueType.INVALID_VARIANT,
+      component: 'Radio',
+      prop: 'size',
+      value: 'smal',
+      options: ['small', 'medium', 'large'],
+      suggestion: 'small',
+    });
+  });
+
+  it('* reports invalid appearance', () => {
+    const onIssue = jest.fn();
+
+    render(
+      <TestApp appearance='defualt' diagnostics={{ mode: 'silent', onIssue }}/>,
+    );
+
+    expect(onIssue.mock.calls[0][0]).toMatchObject({
+      type: StyleIssueType.INVALID_APPEARANCE,
+      prop: 'appearance',
+      options: ['default'],
+      suggestion: 'default',
+    });
+  });
+
+  it('* reports unknown component', () => {
+    const onIssue = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // Component without meta is still unable to render
+    expect(() => render(
+      <TestApp diagnostics={{ mode: 'silent', onIssue }}>
+        <StyledUnknownTest/>
+      </TestApp>,
+    )).toThrowError();
+
+    expect(onIssue.mock.calls[0][0]).toMatchObject({
+      type: StyleIssueType.UNKNOWN_COMPONENT,
+      component: 'Radoi',
+      suggestion: 'Radio',
+    });
+  });
+
+  it('* reports invalid mapping parameter', () => {
+    const onIssue = jest.fn();
+
+    const customMapping: CustomSchemaType | any = {
+      components: {
+        Radio: {
+          appearances: {
+            default: {
+              mapping: {
+                borderWidht: 4,
+              },
+            },
+          },
+        },
+      },
+    };
+
+    render(
+      <TestApp customMapping={customMapping} diagnostics={{ mode: 'silent', onIssue }}/>,
+    );
+
+    const issues: StyleIssue[] = onIssue.mock.calls.map(([issue]) => issue);
+
+    expect(issues).toContainEqual(expect.objectContaining({
+      type: StyleIssueType.INVALID_PARAMETER,
+      prop: 'borderWidht',
+      suggestion: 'borderWidth',
+    }));
+  });
+
+  it('* reports invalid mapping parameter once style is resolved from cache', () => {
+    const onIssue = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const customMapping: CustomSchemaType = {
+      components: {
+        Radio: {
+          meta: mapping.components.Radio.meta,
+          appearances: {
+            default: {
+              mapping: {
+                borderWidht: 4,
+              },
+            },
+          },
+        },
+      },
+    };
+
+    render(
+      <TestApp customMapping={customMapping} diagnostics={{ mode: 'silent', onIssue }}/>,
+    );
+
+    expect(onIssue).toBeCalledWith(expect.objectContaining({ prop: 'borderWidht' }));
+
+    expect(() => render(
+      <TestApp customMapping={customMapping} diagnostics={{ mode: 'throw' }}/>,
+    )).toThrowError('Unable to apply borderWidht');
+  });
+
+  it('* throws on invalid configuration in throw mode', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => render(
+      <TestApp status='eror' diagnostics={{ mode: 'throw' }}/>,
+    )).toThrowError('Did you mean "error"?');
+  });
+
+});
@@ -0,0 +1,7 @@
+import React from 'react';
+import {
+  DiagnosticsService,
+  defaultDiagnostics,
+} from './diagnostics.service';
+
+export const DiagnosticsContext: React.Context<DiagnosticsService> = React.createContext(defaultDiagnostics);
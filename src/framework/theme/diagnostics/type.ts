@@ -0,0 +1,26 @@
+export type DiagnosticsMode = 'warn' | 'throw' | 'silent';
+
+export interface DiagnosticsConfig {
+  mode: DiagnosticsMode;
+  onIssue?: (issue: StyleIssue) => void;
+}
+
+export enum StyleIssueType {
+  UNKNOWN_COMPONENT = 'unknown-component',
+  INVALID_APPEARANCE = 'invalid-appearance',
+  INVALID_VARIANT = 'invalid-variant',
+  INVALID_PARAMETER = 'invalid-parameter',
+  INVALID_EXPRESSION = 'invalid-expression',
+  UNKNOWN_INTERACTION = 'unknown-interaction',
+  UNSUPPORTED_CONFIGURATION = 'unsupported-configuration',
+}
+
+export interface StyleIssue {
+  type: StyleIssueType;
+  component: string;
+  prop?: string;
+  value?: any;
+  options: string[];
+  suggestion?: string;
+  message: string;
+}
@@ -8,26 +8,92 @@ export {
   ThemedComponentProps,
   ThemedComponentClass,
 } from './theme/themeConsumer.component';
+export {
+  registerInteractions,
+  resetInteractions,
+} from './style/interaction.service';
+export {
+  useStyled,
+  StyledHookValue,
+} from './style/style.hook';
+export {
+  useTheme,
+  useStyleSheet,
+} from './theme/theme.hook';
 export {
   ApplicationProvider,
   ApplicationProviderProps,
 } from './application/applicationProvider.component';
+export {
+  CustomMappingProvider,
+  CustomMappingProviderProps,
+} from './mapping/customMappingProvider.component';
+export {
+  BreakpointProvider,
+  BreakpointProviderProps,
+} from './breakpoint/breakpointProvider.component';
 export {
   ModalPanel,
   ModalPanelProps,
 } from './modal/modalPanel.component';
+export {
+  PortalHost,
+  PortalHostProps,
+} from './modal/portalHost.component';
 export {
   ThemeProvider,
   ThemeProviderProps,
 } from './theme/themeProvider.component';
-export { ModalService } from './modal/modal.service';
+export {
+  ModalService,
+  ModalAnimation,
+  ModalAnimationPreset,
+  AlertOptions,
+  ConfirmOptions,
+  PromptOptions,
+  DialogProps,
+  DialogRenderer,
+  DialogType,
+} from './modal/modal.service';
+export {
+  ThemedStyleSheet,
+  ThemedStyleSheetFactory,
+} from './theme/themedStyleSheet.service';
+export {
+  StyleService,
+  ComponentStyleResult,
+  ComponentStyleError,
+} from './style/componentStyle.service';
 export {
   Interaction,
+  InteractionDispatch,
   State,
+  StyleTransitions,
   StyleType,
 } from './style/type';
 export {
   ThemeType,
   ThemedStyleType,
   StyleSheetType,
+  ThemeIssue,
+  ThemeIssueType,
+  ThemeColors,
+  ThemeMode,
+  ColorScheme,
+  ColorSchemeSource,
+  ColorSchemeThemes,
+  ThemeTransition,
 } from './theme/type';
+export {
+  DiagnosticsConfig,
+  DiagnosticsMode,
+  StyleIssue,
+  StyleIssueType,
+} from './diagnostics/type';
+export { SystemColorSchemeSource } from './theme/colorScheme.service';
+export { validateTheme } from './theme/theme.service';
+export { createTheme } from './theme/themeFactory.service';
+export { createPrecompiledStyles } from './mapping/mapping.service';
+export { PrecompiledStyles } from './mapping/type';
+export { Breakpoints } from './breakpoint/type';
+export { Density } from './density/type';
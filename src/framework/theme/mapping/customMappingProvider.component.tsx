@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import {
+  CustomSchemaType,
+  SchemaType,
+  ThemeStyleType,
+} from '@eva-design/dss';
+import { MappingProvider } from './mappingProvider.component';
+import { MappingContext } from './mappingContext';
+import { SchemaContext } from './schemaContext';
+import {
+  processCustomMapping,
+  ProcessedMapping,
+} from './mapping.service';
+
+export interface CustomMappingProviderProps {
+  customMapping: CustomSchemaType;
+  children?: React.ReactNode;
+}
+
+/**
+ * Processed mappings shared across all providers, keyed by parent styles and custom mapping.
+ * So that rendering the same screen again does not process custom mapping once more.
+ */
+const mappingCache: WeakMap<ThemeStyleType, WeakMap<CustomSchemaType, ProcessedMapping>> = new WeakMap();
+
+/**
+ * CustomMappingProvider component is designed to customize components for a part of the application.
+ *
+ * Custom mapping is applied to the mapping provided by the closest parent provider,
+ * so that nested providers combine their customizations. Components outside of it are not affected.
+ *
+ * Requires `mapping` to be provided to ApplicationProvider, even along with precompiled `styles`,
+ * since customization is processed at runtime. Otherwise, customization is not applied.
+ *
+ * @extends React.Component
+ *
+ * @property {CustomSchemaType} customMapping - Determines the customization mapping.
+ * Processed styles are memoized by mapping object, so it's recommended to declare it outside of render function.
+ *
+ * @property {React.ReactNode} children - Determines components to be customized.
+ *
+ * @example CustomMappingProvider API example
+ *
+ * ```
+ * import React from 'react';
+ * import { CustomMappingProvider } from 'react-native-ui-kitten';
+ * import { Checkout } from './path-to/checkout.component';
+ *
+ * const brandMapping = {
+ *   components: {
+ *     Button: {
+ *       appearances: {
+ *         filled: {
+ *           mapping: {
+ *             borderRadius: 24,
+ *           },
+ *         },
+ *       },
+ *     },
+ *   },
+ * };
+ *
+ * export const BrandedCheckout = (): React.ReactElement => (
+ *   <CustomMappingProvider customMapping={brandMapping}>
+ *     <Checkout/>
+ *   </CustomMappingProvider>
+ * );
+ * ```
+ */
+export class CustomMappingProvider extends React.PureComponent<CustomMappingProviderProps> {
+
+  static contextType: React.Context<SchemaType> = SchemaContext;
+
+  public context: SchemaType;
+
+  private isMissingSchemaReported: boolean = false;
+
+  public componentDidMount(): void {
+    this.validate();
+  }
+
+  public componentDidUpdate(): void {
+    this.validate();
+  }
+
+  private validate = (): void => {
+    if (this.context) {
+      this.isMissingSchemaReported = false;
+      return;
+    }
+
+    if (this.isMissingSchemaReported) {
+      return;
+    }
+
+    this.isMissingSchemaReported = true;
+
+    const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
+
+    const message: string = [
+      'CustomMappingProvider: unsupported configuration.',
+      'Customizing a part of the application is only possible with providing `mapping` to ApplicationProvider,',
+      'including the case it is provided with precompiled `styles`.',
+      `📖 Documentation: ${docRoot}/design-system/customize-mapping`,
+    ].join('\n');
+
+    console.error(message);
+  };
+
+  private getMapping = (parent: ProcessedMapping): ProcessedMapping => {
+    const { customMapping } = this.props;
+
+    const parentCache: WeakMap<CustomSchemaType, ProcessedMapping> = mappingCache.get(parent.styles) || new WeakMap();
+
+    if (!parentCache.has(customMapping)) {
+      parentCache.set(customMapping, processCustomMapping(parent, customMapping));
+      mappingCache.set(parent.styles, parentCache);
+    }
+
+    return parentCache.get(customMapping);
+  };
+
+  // Missing schema is reported once provider is mounted or updated
+  private renderProvider = (schema: SchemaType, styles: ThemeStyleType): React.ReactNode => {
+    if (!schema) {
+      return this.props.children;
+    }
+
+    const mapping: ProcessedMapping = this.getMapping({ schema, styles });
+
+    return (
+      <SchemaContext.Provider value={mapping.schema}>
+        <MappingProvider styles={mapping.styles}>
+          {this.props.children}
+        </MappingProvider>
+      </SchemaContext.Provider>
+    );
+  };
+
+  public render(): React.ReactNode {
+    return (
+      <MappingContext.Consumer>{(styles: ThemeStyleType): React.ReactNode => (
+        this.renderProvider(this.context, styles)
+      )}</MappingContext.Consumer>
+    );
+  }
+}
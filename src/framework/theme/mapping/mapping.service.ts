@@ -0,0 +1,159 @@
+import merge from 'lodash.merge';
+import { SchemaProcessor } from '@eva-design/processor';
+import {
+  AppearanceMappingType,
+  ControlMappingType,
+  CustomSchemaType,
+  SchemaType,
+  ThemeMappingType,
+  ThemeStyleType,
+} from '@eva-design/dss';
+import { PrecompiledStyles } from './type';
+
+export interface ProcessedMapping {
+  schema: SchemaType;
+  styles: ThemeStyleType;
+}
+
+const schemaProcessor: SchemaProcessor = new SchemaProcessor();
+
+export const CONDITION_KEYS: string[] = ['platform', 'breakpoints'];
+export const SEPARATOR_CONDITION: string = '.';
+
+/**
+ * Processes mapping with conditional blocks support.
+ *
+ * Conditional blocks (e.g `platform: { ios: { ... } }`) are flattened into prefixed parameters
+ * (e.g `platform.ios.borderWidth`) before processing, so that blocks declared for appearances, variants and states
+ * are merged by parameters rather than replaced. They are resolved at render time.
+ *
+ * @param schema (SchemaType) - mapping to process
+ *
+ * @return (ThemeStyleType) - processed styles
+ */
+export function processMapping(schema: SchemaType): ThemeStyleType {
+  return schemaProcessor.process(withFlatConditions(schema));
+}
+
+/**
+ * Applies custom mapping to an already processed one.
+ * Only components customized by `custom` mapping are processed, the rest of styles are taken from `parent`.
+ *
+ * @param parent (ProcessedMapping) - mapping to customize
+ * @param custom (CustomSchemaType) - customization mapping
+ *
+ * @return (ProcessedMapping) - customized mapping
+ */
+export function processCustomMapping(parent: ProcessedMapping, custom: CustomSchemaType): ProcessedMapping {
+  const schema: SchemaType = merge({}, parent.schema, custom);
+
+  const customComponents: string[] = Object.keys(custom.components || {});
+
+  const components: ThemeMappingType = customComponents.reduce((acc: ThemeMappingType, name: string) => {
+    return { ...acc, [name]: schema.components[name] };
+  }, {});
+
+  const styles: ThemeStyleType = processMapping({ ...schema, components });
+
+  return {
+    schema,
+    styles: { ...parent.styles, ...styles },
+  };
+}
+
+/**
+ * Processes mapping to be serialized at build time and provided to ApplicationProvider with `styles` property.
+ *
+ * @param mapping (SchemaType) - mapping to process
+ * @param custom (CustomSchemaType) - customization mapping. Optional
+ *
+ * @return (PrecompiledStyles) - processed styles along with version and hash of a mapping
+ */
+export function createPrecompiledStyles(mapping: SchemaType, custom?: CustomSchemaType): PrecompiledStyles {
+  const schema: SchemaType = merge({}, mapping, custom);
+
+  return {
+    version: schema.version,
+    hash: getMappingHash(schema),
+    styles: processMapping(schema),
+  };
+}
+
+/**
+ * Creates FNV-1a hash of a mapping
+ *
+ * @param schema (SchemaType) - mapping to hash
+ *
+ * @return (string) - hex string hash
+ */
+export function getMappingHash(schema: SchemaType): string {
+  const source: string = JSON.stringify(schema);
+
+  let hash: number = 0x811c9dc5;
+
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash.toString(16);
+}
+
+function withFlatConditions(schema: SchemaType): SchemaType {
+  const components: ThemeMappingType = transformValues(schema.components, (component: ControlMappingType) => {
+    const appearances = transformValues(component.appearances, (appearance: AppearanceMappingType) => {
+      const variantGroups = appearance.variantGroups && transformValues(appearance.variantGroups, (group) => {
+        return transformValues(group, flattenMapping);
+      });
+
+      return { ...appearance, mapping: flattenMapping(appearance.mapping), variantGroups };
+    });
+
+    return { ...component, appearances };
+  });
+
+  return { ...schema, components };
+}
+
+function flattenMapping(mapping: any): any {
+  if (!mapping) {
+    return mapping;
+  }
+
+  const { state, ...parameters } = mapping;
+
+  const flatMapping: any = flattenConditions(parameters);
+
+  return state ? { ...flatMapping, state: transformValues(state, flattenConditions) } : flatMapping;
+}
+
+/**
+ * Example:
+ *
+ * parameters = { borderWidth: 1, platform: { ios: { borderWidth: 2 } } }
+ *
+ * will return { borderWidth: 1, 'platform.ios.borderWidth': 2 }
+ */
+function flattenConditions(parameters: any): any {
+  return Object.keys(parameters).reduce((acc: any, key: string): any => {
+    if (!CONDITION_KEYS.includes(key)) {
+      return { ...acc, [key]: parameters[key] };
+    }
+
+    const block: any = parameters[key];
+
+    return Object.keys(block).reduce((blockAcc: any, condition: string): any => {
+      return Object.keys(block[condition]).reduce((conditionAcc: any, parameter: string): any => {
+        const flatKey: string = [key, condition, parameter].join(SEPARATOR_CONDITION);
+
+        return { ...conditionAcc, [flatKey]: block[condition][parameter] };
+      }, blockAcc);
+    }, acc);
+  }, {});
+}
+
+function transformValues<T>(value: { [key: string]: T }, transform: (value: T) => any): any {
+  return Object.keys(value).reduce((acc: any, key: string): any => {
+    return { ...acc, [key]: transform(value[key]) };
+  }, {});
+}
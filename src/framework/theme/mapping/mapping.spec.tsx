@@ -8,13 +8,22 @@ import {
   RenderAPI,
 } from 'react-native-testing-library';
 import { ReactTestInstance } from 'react-test-renderer';
-import { ThemeStyleType } from '@eva-design/dss';
+import {
+  CustomSchemaType,
+  ThemeStyleType,
+} from '@eva-design/dss';
 import { MappingContext } from './mappingContext';
 import {
   MappingProvider,
   MappingProviderProps,
 } from './mappingProvider.component';
-import { styles } from '../support/tests';
+import { CustomMappingProvider } from './customMappingProvider.component';
+import { StyleProvider } from '../style/styleProvider.component';
+import {
+  mapping,
+  styles,
+  theme,
+} from '../support/tests';
 
 describe('@mapping: ui component checks', () => {
 
@@ -62,4 +71,113 @@ describe('@mapping: ui component checks', () => {
 
   });
 
+  describe('* custom mapping', () => {
+
+    const createCustomMapping = (parameters: any): CustomSchemaType | any => {
+      return {
+        components: {
+          Radio: {
+            appearances: {
+              default: {
+                mapping: parameters,
+              },
+            },
+          },
+        },
+      };
+    };
+
+    const borderMapping: CustomSchemaType = createCustomMapping({ borderWidth: 4 });
+    const fontMapping: CustomSchemaType = createCustomMapping({ textFontWeight: '700' });
+
+    const withScopedMapping = (Component: React.ComponentClass<any>, testID: string): React.ReactElement<any> => {
+      return (
+        <MappingContext.Consumer>{(style: ThemeStyleType) => (
+          <Component
+            testID={testID}
+            styles={style}
+          />
+        )}</MappingContext.Consumer>
+      );
+    };
+
+    const ScopedTree = (props: { customMapping: CustomSchemaType }): React.ReactElement => {
+      return (
+        <StyleProvider mapping={mapping} styles={styles} theme={theme}>
+          {withScopedMapping(View, '@mapping/outer')}
+          <CustomMappingProvider customMapping={props.customMapping}>
+            {withScopedMapping(View, '@mapping/scoped')}
+            <CustomMappingProvider customMapping={fontMapping}>
+              {withScopedMapping(View, '@mapping/nested')}
+            </CustomMappingProvider>
+          </CustomMappingProvider>
+        </StyleProvider>
+      );
+    };
+
+    it('* provides customized styles to descendants only', () => {
+      const component: RenderAPI = render(
+        <ScopedTree customMapping={borderMapping}/>,
+      );
+
+      const outerStyles: ThemeStyleType = component.getByTestId('@mapping/outer').props.styles;
+      const scopedStyles: ThemeStyleType = component.getByTestId('@mapping/scoped').props.styles;
+
+      expect(outerStyles).toBe(styles);
+      expect(scopedStyles.Radio.styles.default.borderWidth).toEqual(4);
+      expect(styles.Radio.styles.default.borderWidth).not.toEqual(4);
+    });
+
+    it('* combines nested custom mappings', () => {
+      const component: RenderAPI = render(
+        <ScopedTree customMapping={borderMapping}/>,
+      );
+
+      const nestedStyles: ThemeStyleType = component.getByTestId('@mapping/nested').props.styles;
+
+      expect(nestedStyles.Radio.styles.default.borderWidth).toEqual(4);
+      expect(nestedStyles.Radio.styles.default.textFontWeight).toEqual('700');
+    });
+
+    it('* reuses processed styles', () => {
+      const component: RenderAPI = render(
+        <ScopedTree customMapping={borderMapping}/>,
+      );
+
+      const scopedStyles: ThemeStyleType = component.getByTestId('@mapping/scoped').props.styles;
+
+      component.update(
+        <ScopedTree customMapping={borderMapping}/>,
+      );
+
+      expect(component.getByTestId('@mapping/scoped').props.styles).toBe(scopedStyles);
+    });
+
+    it('* reports once if there is no mapping to customize', () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const UnmappedTree = (props: { customMapping: CustomSchemaType }): React.ReactElement => (
+        <MappingProvider styles={styles}>
+          <CustomMappingProvider customMapping={props.customMapping}>
+            {withScopedMapping(View, '@mapping/scoped')}
+          </CustomMappingProvider>
+        </MappingProvider>
+      );
+
+      const component: RenderAPI = render(
+        <UnmappedTree customMapping={borderMapping}/>,
+      );
+
+      component.update(
+        <UnmappedTree customMapping={{ ...borderMapping }}/>,
+      );
+
+      expect(component.getByTestId('@mapping/scoped').props.styles).toBe(styles);
+      expect(error).toHaveBeenCalledTimes(1);
+
+      error.mockRestore();
+    });
+
+  });
+
 });
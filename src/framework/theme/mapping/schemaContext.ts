@@ -0,0 +1,4 @@
+import React from 'react';
+import { SchemaType } from '@eva-design/dss';
+
+export const SchemaContext: React.Context<SchemaType> = React.createContext(undefined);
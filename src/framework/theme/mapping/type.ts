@@ -0,0 +1,13 @@
+import { ThemeStyleType } from '@eva-design/dss';
+
+/**
+ * Styles processed at build time.
+ *
+ * `version` and `hash` are taken from the mapping styles were created from,
+ * so that they can be checked against the mapping used at runtime.
+ */
+export interface PrecompiledStyles {
+  version: number;
+  hash: string;
+  styles: ThemeStyleType;
+}
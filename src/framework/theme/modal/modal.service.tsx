@@ -5,6 +5,7 @@
  */
 
 import React from 'react';
+import { BackHandler } from 'react-native';
 import { ModalPresentingBased } from '../../ui/support/typings';
 
 /**
@@ -14,9 +15,49 @@ import { ModalPresentingBased } from '../../ui/support/typings';
  *
  * @method {(element: React.ReactElement<ModalPresentingBased>, config: ModalPresentingConfig) => string} show -
  * Shows component in a modal window. Returns its id.
+ * `config.animation` determines how component appears and disappears: `fade`, `scale`, `slide-up` or `none` (default).
+ * Once animated component is hidden, it is kept rendered until exit animation is finished.
+ * Android hardware back button press is handled by the most recently shown or brought to front component
+ * across all hosts: `config.onRequestClose` is called,
+ * or `config.onBackdropPress` if backdrop is allowed. Otherwise, the press is not handled,
+ * so that it reaches other listeners (e.g navigation), keeping component shown.
+ *
+ * `config.hostName` determines the `PortalHost` to render component in. By default, it is rendered in application root.
  *
  * @method {(identifier: string) => string} hide - Hides component from a modal window and returns empty string.
  *
+ * @method {(identifier: string, element: React.ReactElement<ModalPresentingBased>) => void} update -
+ * Replaces content of a shown component, keeping its position and config.
+ *
+ * @method {(identifier: string) => void} bringToFront - Moves shown component on top of the others.
+ *
+ * @method {() => void} hideAll - Hides all shown components, e.g on navigation.
+ *
+ * @method {(identifier: string) => boolean} isShown - Returns true if component is shown.
+ *
+ * @method {(hostName?: string) => boolean} isHostMounted - Returns true if `PortalHost` with `hostName` is rendered.
+ *
+ * @method {(options: AlertOptions) => Promise<void>} alert - Shows a dialog with a message.
+ * Resolves once it is closed.
+ *
+ * @method {(options: ConfirmOptions) => Promise<boolean>} confirm - Shows a dialog with confirm and cancel buttons.
+ * Resolves with true if confirmed, false otherwise.
+ *
+ * @method {(options: PromptOptions) => Promise<string | null>} prompt - Shows a dialog with text input.
+ * Resolves with entered text if confirmed, null otherwise.
+ *
+ * Dialogs are rendered with `dialogRenderer` of ApplicationProvider, e.g `renderDialog` of UI Kitten.
+ * In case there is no one, dialogs are not shown and resolve as cancelled.
+ * Dialogs are closed with Android hardware back button, which is the same as cancel.
+ * Dialogs hidden with `hideAll` or along with their `PortalHost` are cancelled as well.
+ * `options.status` determines the status of confirm button, e.g `danger` for destructive actions.
+ *
+ * @method {(listener: (identifier: string) => void) => () => void} onShow - Subscribes to showing components.
+ * Returns function which removes `listener`.
+ *
+ * @method {(listener: (identifier: string) => void) => () => void} onHide - Subscribes to hiding components.
+ * Returns function which removes `listener`.
+ *
  * @example Simple Usage example
  *
  * ```
@@ -65,45 +106,464 @@ import { ModalPresentingBased } from '../../ui/support/typings';
  *   );
  * }
  * ```
+ *
+ * @example Stack Management example
+ *
+ * ```
+ * import React from 'react';
+ * import { ModalService } from 'react-native-ui-kitten';
+ * import { navigation } from './path-to/navigation.service';
+ * import { Progress } from './path-to/progress.component';
+ *
+ * // Closes all modals on navigation
+ * navigation.addListener('willBlur', () => ModalService.hideAll());
+ *
+ * const removeListener = ModalService.onHide((identifier: string) => {
+ *   console.log(`${identifier} is hidden`);
+ * });
+ *
+ * export const showProgress = (): void => {
+ *   const progressID: string = ModalService.show(<Progress value={0}/>, {
+ *     allowBackdrop: false,
+ *     onBackdropPress: () => null,
+ *   });
+ *
+ *   // Updates content without re-showing it
+ *   ModalService.update(progressID, <Progress value={50}/>);
+ * };
+ * ```
+ *
+ * @example Dialogs example
+ *
+ * ```
+ * import { mapping, light as lightTheme } from '@eva-design/eva';
+ * import { ApplicationProvider, ModalService, renderDialog } from 'react-native-ui-kitten';
+ *
+ * // Dialogs are rendered with `dialogRenderer` of application root
+ * export const App = (): React.ReactElement => (
+ *   <ApplicationProvider
+ *     mapping={mapping}
+ *     theme={lightTheme}
+ *     dialogRenderer={renderDialog}>
+ *     <Application/>
+ *   </ApplicationProvider>
+ * );
+ *
+ * export const removeAccount = async (): Promise<void> => {
+ *   const confirmed: boolean = await ModalService.confirm({
+ *     title: 'Remove account?',
+ *     message: 'This action can not be undone',
+ *     confirmText: 'REMOVE',
+ *     status: 'danger',
+ *   });
+ *
+ *   if (confirmed) {
+ *     const reason: string | null = await ModalService.prompt({
+ *       title: 'Tell us why',
+ *       placeholder: 'Reason',
+ *     });
+ *
+ *     await ModalService.alert({ title: 'Account is removed' });
+ *   }
+ * };
+ * ```
  */
 
+export const DEFAULT_HOST_NAME: string = 'default';
+
 class ModalServiceType {
 
-  panel: ModalPresenting | null = null;
+  /**
+   * Mounted hosts, keyed by name.
+   * Each name may be mounted multiple times (e.g by nested ApplicationProviders),
+   * so that the most recently mounted host is used until it is unmounted.
+   */
+  private hosts: Map<string, ModalPresenting[]> = new Map();
+
+  /**
+   * Shown components in order they are shown or brought to front,
+   * so that back button press is handled by the top-most one, no matter which host it is rendered in.
+   */
+  private shownComponents: ShownComponent[] = [];
+  private isBackHandlerAdded: boolean = false;
+
+  /**
+   * Registered dialog renderers, so that the most recently registered one is used until it is removed.
+   */
+  private dialogRenderers: DialogRenderer[] = [];
 
-  public mount(panel: ModalPresenting | null): void {
-    this.panel = panel;
+  private showListeners: ModalListener[] = [];
+  private hideListeners: ModalListener[] = [];
+
+  public mount(host: ModalPresenting, hostName: string = DEFAULT_HOST_NAME): void {
+    const hosts: ModalPresenting[] = this.hosts.get(hostName) || [];
+
+    this.hosts.set(hostName, [...hosts, host]);
   }
 
-  public unmount(): void {
-    this.panel = null;
+  public unmount(host: ModalPresenting, hostName: string = DEFAULT_HOST_NAME): void {
+    const hosts: ModalPresenting[] = (this.hosts.get(hostName) || []).filter((value: ModalPresenting): boolean => {
+      return value !== host;
+    });
+
+    if (hosts.length !== 0) {
+      this.hosts.set(hostName, hosts);
+    } else {
+      this.hosts.delete(hostName);
+    }
+
+    // Components of unmounted host are hidden along with it, so that subscribers are notified
+    host.hideAll().forEach(this.onComponentHide);
   }
 
   public show(element: React.ReactElement<ModalPresentingBased>,
               config: ModalPresentingConfig): string {
 
-    if (this.panel) {
-      return this.panel.show(element, config);
+    const host: ModalPresenting | undefined = this.findHost(config.hostName);
+
+    if (host) {
+      const identifier: string = host.show(element, config);
+      this.onComponentShow(identifier, config);
+
+      return identifier;
     }
   }
 
   public hide(identifier: string): string {
-    if (this.panel) {
-      return this.panel.hide(identifier);
+    const host: ModalPresenting | undefined = this.findComponentHost(identifier);
+
+    if (host) {
+      const result: string = host.hide(identifier);
+      this.onComponentHide(identifier);
+
+      return result;
+    }
+
+    return '';
+  }
+
+  public update(identifier: string, element: React.ReactElement<ModalPresentingBased>): void {
+    const host: ModalPresenting | undefined = this.findComponentHost(identifier);
+
+    if (host) {
+      host.update(identifier, element);
+    }
+  }
+
+  public bringToFront(identifier: string): void {
+    const host: ModalPresenting | undefined = this.findComponentHost(identifier);
+
+    if (host) {
+      host.bringToFront(identifier);
+
+      const component: ShownComponent | undefined = this.shownComponents.find((value: ShownComponent): boolean => {
+        return value.identifier === identifier;
+      });
+
+      if (component) {
+        this.shownComponents = [...this.removeShownComponent(identifier), component];
+      }
+    }
+  }
+
+  public hideAll(): void {
+    this.getMountedHosts().forEach((host: ModalPresenting) => {
+      host.hideAll().forEach(this.onComponentHide);
+    });
+  }
+
+  public isShown(identifier: string): boolean {
+    return !!this.findComponentHost(identifier);
+  }
+
+  /**
+   * @return true if host with `hostName` is mounted
+   */
+  public isHostMounted(hostName: string = DEFAULT_HOST_NAME): boolean {
+    return this.hosts.has(hostName);
+  }
+
+  public alert(options: AlertOptions): Promise<void> {
+    return this.showDialog('alert', options).then(() => undefined);
+  }
+
+  public confirm(options: ConfirmOptions): Promise<boolean> {
+    return this.showDialog('confirm', options).then((result: string | null): boolean => result !== null);
+  }
+
+  public prompt(options: PromptOptions): Promise<string | null> {
+    return this.showDialog('prompt', options);
+  }
+
+  /**
+   * Registers the function to render dialogs with.
+   * Is called by ApplicationProvider with its `dialogRenderer`, so that services do not depend on components.
+   *
+   * @return function which removes `renderer`
+   */
+  public registerDialogRenderer(renderer: DialogRenderer): () => void {
+    this.dialogRenderers = [...this.dialogRenderers, renderer];
+
+    // The same renderer may be registered multiple times (e.g by nested ApplicationProviders), so remove one of them
+    return () => {
+      const index: number = this.dialogRenderers.lastIndexOf(renderer);
+
+      if (index !== -1) {
+        this.dialogRenderers = [...this.dialogRenderers.slice(0, index), ...this.dialogRenderers.slice(index + 1)];
+      }
+    };
+  }
+
+  /**
+   * @return function which removes `listener`
+   */
+  public onShow(listener: ModalListener): () => void {
+    this.showListeners = [...this.showListeners, listener];
+
+    return () => {
+      this.showListeners = this.showListeners.filter((value: ModalListener): boolean => value !== listener);
+    };
+  }
+
+  /**
+   * @return function which removes `listener`
+   */
+  public onHide(listener: ModalListener): () => void {
+    this.hideListeners = [...this.hideListeners, listener];
+
+    return () => {
+      this.hideListeners = this.hideListeners.filter((value: ModalListener): boolean => value !== listener);
+    };
+  }
+
+  /**
+   * @return promise resolved with entered value if dialog is confirmed, null otherwise
+   */
+  private showDialog(type: DialogType, options: PromptOptions): Promise<string | null> {
+    return new Promise((resolve: (result: string | null) => void) => {
+      const renderDialog: DialogRenderer = this.dialogRenderers[this.dialogRenderers.length - 1];
+
+      if (!renderDialog) {
+        const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
+
+        const message: string = [
+          'ModalService: dialogs can not be shown.',
+          'ApplicationProvider should be rendered with `dialogRenderer` property, e.g `renderDialog` of UI Kitten.',
+          `📖 Documentation: ${docRoot}/components/modalservice/api`,
+        ].join('\n');
+
+        console.warn(message);
+        resolve(null);
+
+        return;
+      }
+
+      let identifier: string = '';
+
+      // Dialog may be hidden without user choice, e.g with `hideAll` or once its host is unmounted
+      const removeHideListener = this.onHide((hiddenIdentifier: string): void => {
+        if (hiddenIdentifier === identifier) {
+          removeHideListener();
+          resolve(null);
+        }
+      });
+
+      const close = (result: string | null): void => {
+        removeHideListener();
+        this.hide(identifier);
+        resolve(result);
+      };
+
+      const element: React.ReactElement = renderDialog({
+        type,
+        options,
+        onConfirm: (value: string = ''): void => close(value),
+        onCancel: (): void => close(null),
+      });
+
+      identifier = this.show(element, {
+        allowBackdrop: false,
+        onBackdropPress: () => null,
+        onRequestClose: (): void => close(null),
+        animation: options.animation,
+        hostName: options.hostName,
+      });
+
+      // There is no host to show dialog in
+      if (!identifier) {
+        removeHideListener();
+        resolve(null);
+      }
+    });
+  }
+
+  /**
+   * @return the most recently mounted host with `hostName`.
+   * Falls back to the default one if there is no such host.
+   */
+  private findHost(hostName: string = DEFAULT_HOST_NAME): ModalPresenting | undefined {
+    const hosts: ModalPresenting[] | undefined = this.hosts.get(hostName);
+
+    if (hosts) {
+      return hosts[hosts.length - 1];
+    }
+
+    if (hostName !== DEFAULT_HOST_NAME) {
+      const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
+
+      const message: string = [
+        `ModalService: there is no PortalHost named "${hostName}".`,
+        'Make sure it is rendered, or remove `hostName` to show component on application root.',
+        `📖 Documentation: ${docRoot}/services/modalservice`,
+      ].join('\n');
+
+      console.warn(message);
+
+      return this.findHost(DEFAULT_HOST_NAME);
+    }
+
+    return undefined;
+  }
+
+  private onComponentShow = (identifier: string, config: ModalPresentingConfig): void => {
+    this.shownComponents = [...this.shownComponents, { identifier, config }];
+    this.updateBackHandler();
+
+    this.notify(this.showListeners, identifier);
+  };
+
+  private onComponentHide = (identifier: string): void => {
+    this.shownComponents = this.removeShownComponent(identifier);
+    this.updateBackHandler();
+
+    this.notify(this.hideListeners, identifier);
+  };
+
+  private removeShownComponent(identifier: string): ShownComponent[] {
+    return this.shownComponents.filter((value: ShownComponent): boolean => value.identifier !== identifier);
+  }
+
+  // Back button is handled only while there is a shown component, so that navigation works as usual otherwise
+  private updateBackHandler(): void {
+    const isShown: boolean = this.shownComponents.length !== 0;
+
+    if (isShown && !this.isBackHandlerAdded) {
+      BackHandler.addEventListener('hardwareBackPress', this.onHardwareBackPress);
+    } else if (!isShown && this.isBackHandlerAdded) {
+      BackHandler.removeEventListener('hardwareBackPress', this.onHardwareBackPress);
     }
+
+    this.isBackHandlerAdded = isShown;
   }
+
+  private onHardwareBackPress = (): boolean => {
+    const topComponent: ShownComponent | undefined = this.shownComponents[this.shownComponents.length - 1];
+
+    if (!topComponent) {
+      return false;
+    }
+
+    const { onRequestClose, allowBackdrop, onBackdropPress } = topComponent.config;
+
+    if (onRequestClose) {
+      onRequestClose();
+      return true;
+    }
+
+    if (allowBackdrop) {
+      onBackdropPress();
+      return true;
+    }
+
+    // Let the press be handled by navigation, since component is not closed with it
+    return false;
+  };
+
+  private findComponentHost(identifier: string): ModalPresenting | undefined {
+    return this.getMountedHosts().find((host: ModalPresenting): boolean => host.isShown(identifier));
+  }
+
+  private getMountedHosts(): ModalPresenting[] {
+    return Array.from(this.hosts.values()).reduce((acc: ModalPresenting[], hosts: ModalPresenting[]) => {
+      return [...acc, ...hosts];
+    }, []);
+  }
+
+  private notify(listeners: ModalListener[], identifier: string): void {
+    listeners.forEach((listener: ModalListener) => {
+      listener(identifier);
+    });
+  }
+}
+
+export type ModalListener = (identifier: string) => void;
+
+interface ShownComponent {
+  identifier: string;
+  config: ModalPresentingConfig;
+}
+
+export type ModalAnimationPreset = 'fade' | 'scale' | 'slide-up' | 'none';
+
+export interface ModalAnimation {
+  preset: ModalAnimationPreset;
+  duration?: number;
+  easing?: (value: number) => number;
 }
 
 export interface ModalPresentingConfig {
   allowBackdrop: boolean;
   onBackdropPress: () => void;
+  onRequestClose?: () => void;
+  animation?: ModalAnimation;
+  hostName?: string;
 }
 
+export type DialogType = 'alert' | 'confirm' | 'prompt';
+
+export interface AlertOptions {
+  title?: string;
+  message?: string;
+  status?: string;
+  confirmText?: string;
+  animation?: ModalAnimation;
+  hostName?: string;
+}
+
+export interface ConfirmOptions extends AlertOptions {
+  cancelText?: string;
+}
+
+export interface PromptOptions extends ConfirmOptions {
+  placeholder?: string;
+  defaultValue?: string;
+}
+
+export interface DialogProps {
+  type: DialogType;
+  options: PromptOptions;
+  onConfirm: (value?: string) => void;
+  onCancel: () => void;
+}
+
+export type DialogRenderer = (props: DialogProps) => React.ReactElement;
+
 export interface ModalPresenting {
   show(element: React.ReactElement<ModalPresentingBased>,
        config: ModalPresentingConfig): string;
 
   hide(identifier: string): string;
+
+  update(identifier: string, element: React.ReactElement<ModalPresentingBased>): void;
+
+  bringToFront(identifier: string): void;
+
+  /**
+   * @return identifiers of hidden components
+   */
+  hideAll(): string[];
+
+  isShown(identifier: string): boolean;
 }
 
 export const ModalService = new ModalServiceType();
@@ -0,0 +1,88 @@
+import {
+  Animated,
+  Dimensions,
+  Easing,
+} from 'react-native';
+import { ModalAnimation } from './modal.service';
+import { StyleType } from '../style/type';
+
+export const DEFAULT_ANIMATION_DURATION: number = 200;
+
+const SCALE_INITIAL: number = 0.8;
+
+export interface AnimationOrigin {
+  x: number;
+  y: number;
+}
+
+/**
+ * @returns true if component is presented with enter and exit animations
+ */
+export function isAnimated(animation: ModalAnimation | undefined): boolean {
+  return !!animation && animation.preset !== 'none';
+}
+
+/**
+ * Creates a style for animated component presentation
+ *
+ * @param animation (ModalAnimation) - animation to create style for
+ * @param progress (Animated.Value) - presentation progress. 0 when component is hidden, 1 when shown
+ * @param origin (AnimationOrigin) - point to scale component around, relative to the center of animated view
+ *
+ * @return (StyleType) - animated style
+ */
+export function createAnimationStyle(animation: ModalAnimation,
+                                     progress: Animated.Value,
+                                     origin: AnimationOrigin = { x: 0, y: 0 }): StyleType {
+  switch (animation.preset) {
+    case 'fade':
+      return {
+        opacity: progress,
+      };
+    case 'scale':
+      return {
+        opacity: progress,
+        // Moved to the origin and back, since transforms are applied around the center of animated view
+        transform: [
+          { translateX: origin.x },
+          { translateY: origin.y },
+          { scale: interpolate(progress, SCALE_INITIAL, 1) },
+          { translateX: -origin.x },
+          { translateY: -origin.y },
+        ],
+      };
+    case 'slide-up':
+      return {
+        transform: [{ translateY: interpolate(progress, Dimensions.get('window').height, 0) }],
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Animates component presentation
+ *
+ * @param animation (ModalAnimation) - animation config
+ * @param progress (Animated.Value) - presentation progress
+ * @param toValue (number) - 1 to show component, 0 to hide
+ *
+ * @return (Animated.CompositeAnimation) - animation to be started
+ */
+export function createPresentationAnimation(animation: ModalAnimation,
+                                            progress: Animated.Value,
+                                            toValue: number): Animated.CompositeAnimation {
+
+  return Animated.timing(progress, {
+    toValue,
+    duration: animation.duration !== undefined ? animation.duration : DEFAULT_ANIMATION_DURATION,
+    easing: animation.easing || Easing.inOut(Easing.ease),
+  });
+}
+
+function interpolate(progress: Animated.Value, from: number, to: number): Animated.AnimatedInterpolation {
+  return progress.interpolate({
+    inputRange: [0, 1],
+    outputRange: [from, to],
+  });
+}
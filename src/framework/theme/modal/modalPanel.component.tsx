@@ -6,9 +6,14 @@
 
 import React from 'react';
 import {
+  Dimensions,
+  findNodeHandle,
+  ScaledSize,
+  UIManager,
   View,
   StyleSheet,
   ViewProps,
+  ViewStyle,
 } from 'react-native';
 import {
   ModalResolver,
@@ -19,38 +24,65 @@ import {
   ModalPresenting,
   ModalPresentingConfig,
 } from './modal.service';
+import { isAnimated } from './modalAnimation.service';
 import { ModalPresentingBased } from '../../ui/support/typings';
 
 interface ModalPanelChild extends ModalPresentingConfig {
   element: React.ReactElement<ModalPresentingBased>;
+  // false once component is hidden, but is still rendered until exit animation is finished
+  visible: boolean;
 }
 
 export interface ModalPanelProps {
+  // name of the host to be registered with. Application root is registered with the default one
+  name?: string;
   children: React.ReactNode;
 }
 
 interface ModalPanelState {
   components: Map<string, ModalPanelChild>;
+  // position of the panel in window
+  origin: { x: number, y: number };
 }
 
+/**
+ * Incremented for each shown component, so that identifiers are never reused,
+ * even by different panels or once a panel is re-mounted.
+ */
+let lastComponentIndex: number = 0;
+
 export class ModalPanel extends React.Component<ModalPanelProps, ModalPanelState> implements ModalPresenting {
 
   public state: ModalPanelState = {
     components: new Map(),
+    origin: { x: 0, y: 0 },
   };
 
-  public componentDidMount(): void {
-    ModalService.mount(this);
+  // Source of truth for rendered components, so that they are up to date before state is updated
+  private components: Map<string, ModalPanelChild> = new Map();
+  private containerRef: React.RefObject<View> = React.createRef();
+
+  constructor(props: ModalPanelProps) {
+    super(props);
+    // Registered before children are mounted, so that components they show on mount are rendered within this host
+    ModalService.mount(this, props.name);
+  }
+
+  public componentDidUpdate(prevProps: ModalPanelProps): void {
+    if (prevProps.name !== this.props.name) {
+      ModalService.unmount(this, prevProps.name);
+      ModalService.mount(this, this.props.name);
+    }
   }
 
   public componentWillUnmount(): void {
-    ModalService.unmount();
+    ModalService.unmount(this, this.props.name);
   }
 
   public hide = (identifier: string): string => {
-    const components: Map<string, ModalPanelChild> = this.state.components;
-    components.delete(identifier);
-    this.setState({ components });
+    this.removeComponent(identifier);
+    this.updateComponents();
+
     return '';
   };
 
@@ -58,43 +90,150 @@ export class ModalPanel extends React.Component<ModalPanelProps, ModalPanelState
               config: ModalPresentingConfig): string {
 
     const key: string = this.generateUniqueComponentKey();
-    const components: Map<string, ModalPanelChild> = this.state.components
-      .set(key, { ...config, element });
 
-    this.setState({ components });
+    this.components.set(key, { ...config, element, visible: true });
+    this.updateComponents();
 
     return key;
   }
 
+  public update(identifier: string, element: React.ReactElement<ModalPresentingBased>): void {
+    if (this.isShown(identifier)) {
+      this.components.set(identifier, { ...this.components.get(identifier), element });
+      this.updateComponents();
+    }
+  }
+
+  public bringToFront(identifier: string): void {
+    const component: ModalPanelChild | undefined = this.components.get(identifier);
+
+    if (this.isShown(identifier)) {
+      // Components are rendered in insertion order, so that re-inserted one is rendered last
+      this.components.delete(identifier);
+      this.components.set(identifier, component);
+      this.updateComponents();
+    }
+  }
+
+  public hideAll(): string[] {
+    const identifiers: string[] = Array.from(this.components.keys()).filter(this.isShown);
+
+    identifiers.forEach(this.removeComponent);
+    this.updateComponents();
+
+    return identifiers;
+  }
+
+  public isShown = (identifier: string): boolean => {
+    const component: ModalPanelChild | undefined = this.components.get(identifier);
+
+    return !!component && component.visible;
+  };
+
+  private removeComponent = (identifier: string): void => {
+    const component: ModalPanelChild | undefined = this.components.get(identifier);
+
+    if (!component || !component.visible) {
+      return;
+    }
+
+    if (isAnimated(component.animation)) {
+      this.components.set(identifier, { ...component, visible: false });
+    } else {
+      this.components.delete(identifier);
+    }
+  };
+
+  private onExitAnimationEnd = (identifier: string): void => {
+    const component: ModalPanelChild | undefined = this.components.get(identifier);
+
+    if (component && !component.visible) {
+      this.components.delete(identifier);
+      this.updateComponents();
+    }
+  };
+
+  private updateComponents = (): void => {
+    this.setState({ components: new Map(this.components) });
+  };
+
+  private onContainerLayout = (): void => {
+    const node: number = findNodeHandle(this.containerRef.current);
+
+    UIManager.measureInWindow(node, (x: number, y: number) => {
+      this.setState({ origin: { x, y } });
+    });
+  };
+
   private generateUniqueComponentKey = (): string => {
-    return Math.random().toString(36).substring(2);
+    lastComponentIndex += 1;
+
+    return `modal-${lastComponentIndex}`;
   };
 
   private areThereAnyComponents = (): boolean => {
     return this.state.components && this.state.components.size !== 0;
   };
 
-  private renderModal = (config: ModalPanelChild, index: number): React.ReactElement<ModalResolverProps> => {
+  private renderModal = ([key, config]: [string, ModalPanelChild]): React.ReactElement<ModalResolverProps> => {
     return (
       <ModalResolver
         {...config.element.props}
-        visible={true}
-        key={index}
+        visible={config.visible}
+        key={key}
         allowBackdrop={config.allowBackdrop}
-        onBackdropPress={config.onBackdropPress}>
+        onBackdropPress={config.onBackdropPress}
+        animation={config.animation}
+        onExitAnimationEnd={() => this.onExitAnimationEnd(key)}>
         {config.element}
       </ModalResolver>
     );
   };
 
   private renderModals = (): React.ReactElement<ModalResolverProps>[] => {
-    return Array.from(this.state.components.values()).map(this.renderModal);
+    return Array.from(this.state.components.entries()).map(this.renderModal);
+  };
+
+  private renderHostModals = (): React.ReactElement<ViewProps> => {
+    const { origin } = this.state;
+    const window: ScaledSize = Dimensions.get('window');
+
+    // Components are positioned in window coordinates, so that layer is moved to window origin
+    const layerStyle: ViewStyle = {
+      top: -origin.y,
+      left: -origin.x,
+      width: window.width,
+      height: window.height,
+    };
+
+    return (
+      <View
+        pointerEvents='box-none'
+        style={[styles.hostLayer, layerStyle]}>
+        {this.renderModals()}
+      </View>
+    );
   };
 
   public render(): React.ReactElement<ViewProps> {
+    const { name, children } = this.props;
+
+    // Application root is expected to fill the window, so that only named hosts are measured
+    if (name) {
+      return (
+        <View
+          ref={this.containerRef}
+          style={styles.container}
+          onLayout={this.onContainerLayout}>
+          {children}
+          {this.areThereAnyComponents() && this.renderHostModals()}
+        </View>
+      );
+    }
+
     return (
       <View style={styles.container}>
-        {this.props.children}
+        {children}
         {this.areThereAnyComponents() && this.renderModals()}
       </View>
     );
@@ -105,4 +244,7 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  hostLayer: {
+    position: 'absolute',
+  },
 });
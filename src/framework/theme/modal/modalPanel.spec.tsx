@@ -5,15 +5,25 @@ import {
   RenderAPI,
   shallow,
 } from 'react-native-testing-library';
-import { ReactTestInstance } from 'react-test-renderer';
+import {
+  act,
+  ReactTestInstance,
+} from 'react-test-renderer';
 import {
   View,
   Text,
   Button,
   TouchableOpacity,
+  BackHandler,
+  Animated,
+  StyleSheet,
 } from 'react-native';
 import { ModalPanel } from './modalPanel.component';
-import { ModalService } from './modal.service';
+import { PortalHost } from './portalHost.component';
+import {
+  ModalPresentingConfig,
+  ModalService,
+} from './modal.service';
 import { ModalPresentingBased } from '../../ui/support/typings';
 
 describe('@modal-service: service checks', () => {
@@ -169,9 +179,8 @@ describe('@modal-service: service checks', () => {
       <TestApplication/>,
     );
 
-    ModalService.mount(null);
-
-    expect(ModalService.panel).toBe(null);
+    const panel: ModalPanel = application.getByType(ModalPanel).instance;
+    ModalService.unmount(panel);
 
     fireEvent.press(application.getByTestId(ShowSingleModalTestId));
 
@@ -330,3 +339,460 @@ describe('@modal panel checks', () => {
   });
 
 });
+
+describe('@modal-service: stack checks', () => {
+
+  const config: ModalPresentingConfig = {
+    allowBackdrop: false,
+    onBackdropPress: () => null,
+  };
+
+  const textId = (id: number): string => {
+    return `@modal/stack-text-${id}`;
+  };
+
+  const TestModal = (props: { id: number, text?: string }): React.ReactElement => {
+    return (
+      <Text testID={textId(props.id)}>
+        {props.text || textId(props.id)}
+      </Text>
+    );
+  };
+
+  const renderPanel = (): RenderAPI => {
+    return render(
+      <ModalPanel>
+        <View/>
+      </ModalPanel>,
+    );
+  };
+
+  const getModalTexts = (component: RenderAPI): string[] => {
+    return component.getAllByType(Text).map((instance: ReactTestInstance): string => instance.props.testID);
+  };
+
+  it('* generates unique identifiers', () => {
+    renderPanel();
+
+    const identifiers: string[] = [1, 2, 3].map((id: number): string => {
+      return ModalService.show(<TestModal id={id}/>, config);
+    });
+
+    expect(new Set(identifiers).size).toEqual(3);
+    expect(identifiers.every(ModalService.isShown.bind(ModalService))).toEqual(true);
+  });
+
+  it('* updates shown component in place', () => {
+    const component: RenderAPI = renderPanel();
+
+    const firstId: string = ModalService.show(<TestModal id={1}/>, config);
+    ModalService.show(<TestModal id={2}/>, config);
+
+    ModalService.update(firstId, <TestModal id={1} text='updated'/>);
+
+    expect(component.getByTestId(textId(1)).props.children).toEqual('updated');
+    expect(getModalTexts(component)).toEqual([textId(1), textId(2)]);
+  });
+
+  it('* brings component to front', () => {
+    const component: RenderAPI = renderPanel();
+
+    const firstId: string = ModalService.show(<TestModal id={1}/>, config);
+    ModalService.show(<TestModal id={2}/>, config);
+
+    ModalService.bringToFront(firstId);
+
+    expect(getModalTexts(component)).toEqual([textId(2), textId(1)]);
+  });
+
+  it('* hides all components', () => {
+    const component: RenderAPI = renderPanel();
+
+    const firstId: string = ModalService.show(<TestModal id={1}/>, config);
+    ModalService.show(<TestModal id={2}/>, config);
+
+    ModalService.hideAll();
+
+    expect(ModalService.isShown(firstId)).toEqual(false);
+    expect(component.queryAllByType(Text)).toEqual([]);
+  });
+
+  it('* notifies about shown and hidden components', () => {
+    renderPanel();
+
+    const onShow = jest.fn();
+    const onHide = jest.fn();
+
+    const removeShowListener = ModalService.onShow(onShow);
+    const removeHideListener = ModalService.onHide(onHide);
+
+    const firstId: string = ModalService.show(<TestModal id={1}/>, config);
+    const secondId: string = ModalService.show(<TestModal id={2}/>, config);
+
+    ModalService.hide(firstId);
+    ModalService.hide(firstId);
+    ModalService.hideAll();
+
+    removeShowListener();
+    removeHideListener();
+
+    ModalService.show(<TestModal id={3}/>, config);
+    ModalService.hideAll();
+
+    expect(onShow.mock.calls).toEqual([[firstId], [secondId]]);
+    expect(onHide.mock.calls).toEqual([[firstId], [secondId]]);
+  });
+
+});
+
+describe('@modal-service: animation checks', () => {
+
+  const modalTextTestId: string = '@modal/animated-text';
+
+  const config: ModalPresentingConfig = {
+    allowBackdrop: false,
+    onBackdropPress: () => null,
+    animation: { preset: 'fade', duration: 100 },
+  };
+
+  const renderPanel = (): RenderAPI => {
+    return render(
+      <ModalPanel>
+        <View/>
+      </ModalPanel>,
+    );
+  };
+
+  // Animated views are updated with `setNativeProps`, which warns in test renderer
+  const runAnimations = (): void => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    warn.mock.calls.forEach(([message]) => {
+      expect(message).toContain('setNativeProps');
+    });
+
+    warn.mockRestore();
+  };
+
+  it('* keeps component rendered until exit animation is finished', () => {
+    const component: RenderAPI = renderPanel();
+
+    const identifier: string = ModalService.show(<Text testID={modalTextTestId}/>, config);
+
+    runAnimations();
+
+    ModalService.hide(identifier);
+
+    expect(ModalService.isShown(identifier)).toEqual(false);
+    expect(component.queryAllByTestId(modalTextTestId).length).not.toEqual(0);
+
+    runAnimations();
+
+    expect(component.queryAllByTestId(modalTextTestId).length).toEqual(0);
+  });
+
+  it('* scales component around its center', () => {
+    const component: RenderAPI = renderPanel();
+
+    ModalService.show(<Text/>, {
+      ...config,
+      animation: { preset: 'scale' },
+    });
+
+    fireEvent(component.getByType(Text), 'layout', {
+      nativeEvent: { layout: { x: 100, y: 200, width: 50, height: 40 } },
+    });
+
+    runAnimations();
+
+    const { transform } = StyleSheet.flatten(component.getByType(Animated.View).props.style);
+
+    expect(transform[0]).toEqual({ translateX: 125 });
+    expect(transform[1]).toEqual({ translateY: 220 });
+
+    component.unmount();
+  });
+
+  it('* removes component immediately without animation', () => {
+    const component: RenderAPI = renderPanel();
+
+    const identifier: string = ModalService.show(<Text testID={modalTextTestId}/>, {
+      ...config,
+      animation: { preset: 'none' },
+    });
+
+    ModalService.hide(identifier);
+
+    expect(component.queryAllByTestId(modalTextTestId).length).toEqual(0);
+  });
+
+});
+
+describe('@modal-service: back button checks', () => {
+
+  const renderPanel = (): RenderAPI => {
+    return render(
+      <ModalPanel>
+        <View/>
+      </ModalPanel>,
+    );
+  };
+
+  const createConfig = (config?: Partial<ModalPresentingConfig>): ModalPresentingConfig => {
+    return {
+      allowBackdrop: true,
+      onBackdropPress: jest.fn(),
+      ...config,
+    };
+  };
+
+  let addEventListener: jest.SpyInstance;
+  let removeEventListener: jest.SpyInstance;
+
+  const pressBackButton = (): boolean => {
+    const [, listener] = addEventListener.mock.calls[addEventListener.mock.calls.length - 1];
+
+    return listener();
+  };
+
+  beforeEach(() => {
+    // Back button listener is shared by all hosts, so that components shown by previous checks are hidden
+    ModalService.hideAll();
+
+    addEventListener = jest.spyOn(BackHandler, 'addEventListener');
+    removeEventListener = jest.spyOn(BackHandler, 'removeEventListener');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('* handles back button only while component is shown', () => {
+    renderPanel();
+
+    const identifier: string = ModalService.show(<Text/>, createConfig());
+    ModalService.show(<Text/>, createConfig());
+
+    expect(addEventListener).toBeCalledTimes(1);
+    expect(removeEventListener).not.toBeCalled();
+
+    ModalService.hide(identifier);
+
+    expect(removeEventListener).not.toBeCalled();
+
+    ModalService.hideAll();
+
+    expect(removeEventListener).toBeCalledTimes(1);
+  });
+
+  it('* calls onBackdropPress of top-most component', () => {
+    renderPanel();
+
+    const bottomConfig: ModalPresentingConfig = createConfig();
+    const topConfig: ModalPresentingConfig = createConfig();
+
+    const bottomId: string = ModalService.show(<Text/>, bottomConfig);
+    ModalService.show(<Text/>, topConfig);
+
+    expect(pressBackButton()).toEqual(true);
+    expect(topConfig.onBackdropPress).toBeCalledTimes(1);
+    expect(bottomConfig.onBackdropPress).not.toBeCalled();
+
+    ModalService.bringToFront(bottomId);
+
+    expect(pressBackButton()).toEqual(true);
+    expect(bottomConfig.onBackdropPress).toBeCalledTimes(1);
+  });
+
+  it('* prefers onRequestClose over onBackdropPress', () => {
+    renderPanel();
+
+    const config: ModalPresentingConfig = createConfig({ onRequestClose: jest.fn() });
+
+    ModalService.show(<Text/>, config);
+
+    expect(pressBackButton()).toEqual(true);
+    expect(config.onRequestClose).toBeCalledTimes(1);
+    expect(config.onBackdropPress).not.toBeCalled();
+  });
+
+  it('* does not handle back button if backdrop is not allowed', () => {
+    renderPanel();
+
+    const config: ModalPresentingConfig = createConfig({ allowBackdrop: false });
+
+    ModalService.show(<Text/>, config);
+
+    expect(pressBackButton()).toEqual(false);
+    expect(config.onBackdropPress).not.toBeCalled();
+  });
+
+  it('* handles back button by the most recently shown component across hosts', () => {
+    const component: RenderAPI = render(
+      <ModalPanel>
+        <PortalHost name='@modal/back-button-host'>
+          <View/>
+        </PortalHost>
+      </ModalPanel>,
+    );
+
+    const rootConfig: ModalPresentingConfig = createConfig();
+    const hostConfig: ModalPresentingConfig = createConfig();
+    const topConfig: ModalPresentingConfig = createConfig();
+
+    ModalService.show(<Text/>, rootConfig);
+    ModalService.show(<Text/>, { ...hostConfig, hostName: '@modal/back-button-host' });
+    ModalService.show(<Text/>, topConfig);
+
+    expect(addEventListener).toBeCalledTimes(1);
+    expect(pressBackButton()).toEqual(true);
+    expect(topConfig.onBackdropPress).toBeCalledTimes(1);
+    expect(hostConfig.onBackdropPress).not.toBeCalled();
+    expect(rootConfig.onBackdropPress).not.toBeCalled();
+
+    component.unmount();
+  });
+
+  it('* removes back button listener on unmount', () => {
+    const component: RenderAPI = renderPanel();
+
+    ModalService.show(<Text/>, createConfig());
+    component.unmount();
+
+    expect(removeEventListener).toBeCalledTimes(1);
+  });
+
+});
+
+describe('@modal-service: portal host checks', () => {
+
+  const rootTextTestId: string = '@modal/root-text';
+  const hostTextTestId: string = '@modal/host-text';
+  const modalTextTestId: string = '@modal/portal-text';
+
+  const config: ModalPresentingConfig = {
+    allowBackdrop: false,
+    onBackdropPress: () => null,
+  };
+
+  const renderApplication = (hostName: string): RenderAPI => {
+    return render(
+      <ModalPanel>
+        <Text testID={rootTextTestId}/>
+        <PortalHost name={hostName}>
+          <Text testID={hostTextTestId}/>
+        </PortalHost>
+      </ModalPanel>,
+    );
+  };
+
+  const isRenderedInHost = (component: RenderAPI): boolean => {
+    const host: ReactTestInstance = component.getByType(PortalHost);
+
+    return host.findAllByProps({ testID: modalTextTestId }).length !== 0;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('* renders component in host with matching name', () => {
+    const component: RenderAPI = renderApplication('@modal/host-1');
+
+    const identifier: string = ModalService.show(<Text testID={modalTextTestId}/>, {
+      ...config,
+      hostName: '@modal/host-1',
+    });
+
+    expect(ModalService.isShown(identifier)).toEqual(true);
+    expect(isRenderedInHost(component)).toEqual(true);
+
+    ModalService.hide(identifier);
+
+    expect(ModalService.isShown(identifier)).toEqual(false);
+    expect(component.queryAllByTestId(modalTextTestId).length).toEqual(0);
+  });
+
+  it('* renders component in application root by default', () => {
+    const component: RenderAPI = renderApplication('@modal/host-2');
+
+    ModalService.show(<Text testID={modalTextTestId}/>, config);
+
+    expect(component.queryAllByTestId(modalTextTestId).length).not.toEqual(0);
+    expect(isRenderedInHost(component)).toEqual(false);
+  });
+
+  it('* falls back to application root if there is no host with matching name', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const component: RenderAPI = renderApplication('@modal/host-3');
+
+    ModalService.show(<Text testID={modalTextTestId}/>, {
+      ...config,
+      hostName: '@modal/unknown-host',
+    });
+
+    expect(warn).toBeCalledTimes(1);
+    expect(component.queryAllByTestId(modalTextTestId).length).not.toEqual(0);
+    expect(isRenderedInHost(component)).toEqual(false);
+  });
+
+  it('* uses the most recently mounted host with the same name', () => {
+    const first: RenderAPI = renderApplication('@modal/host-4');
+    const second: RenderAPI = renderApplication('@modal/host-4');
+
+    const configWithHost: ModalPresentingConfig = { ...config, hostName: '@modal/host-4' };
+
+    ModalService.show(<Text testID={modalTextTestId}/>, configWithHost);
+
+    expect(isRenderedInHost(first)).toEqual(false);
+    expect(isRenderedInHost(second)).toEqual(true);
+
+    second.unmount();
+    ModalService.show(<Text testID={modalTextTestId}/>, configWithHost);
+
+    expect(isRenderedInHost(first)).toEqual(true);
+  });
+
+  it('* renders component shown on mount of host children', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    class ShownOnMount extends React.Component {
+
+      public componentDidMount(): void {
+        ModalService.show(<Text testID={modalTextTestId}/>, { ...config, hostName: '@modal/host-6' });
+      }
+
+      public render(): React.ReactElement {
+        return null;
+      }
+    }
+
+    const component: RenderAPI = render(
+      <ModalPanel>
+        <PortalHost name='@modal/host-6'>
+          <ShownOnMount/>
+        </PortalHost>
+      </ModalPanel>,
+    );
+
+    expect(warn).not.toBeCalled();
+    expect(isRenderedInHost(component)).toEqual(true);
+
+    component.unmount();
+  });
+
+  it('* unregisters host on unmount', () => {
+    const component: RenderAPI = renderApplication('@modal/host-5');
+
+    expect(ModalService.isHostMounted('@modal/host-5')).toEqual(true);
+
+    component.unmount();
+
+    expect(ModalService.isHostMounted('@modal/host-5')).toEqual(false);
+  });
+
+});
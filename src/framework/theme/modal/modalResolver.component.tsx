@@ -6,12 +6,22 @@
 
 import React from 'react';
 import {
+  Animated,
+  LayoutChangeEvent,
+  LayoutRectangle,
   View,
   ViewProps,
   StyleSheet,
   TouchableOpacity,
   TouchableOpacityProps,
 } from 'react-native';
+import { ModalAnimation } from './modal.service';
+import {
+  AnimationOrigin,
+  createAnimationStyle,
+  createPresentationAnimation,
+  isAnimated,
+} from './modalAnimation.service';
 
 type ChildElement = React.ReactElement<any>;
 type ChildrenProp = ChildElement | ChildElement[];
@@ -21,24 +31,117 @@ interface ComponentProps {
   children: ChildrenProp;
   allowBackdrop: boolean;
   onBackdropPress: () => void;
+  animation?: ModalAnimation;
+  onExitAnimationEnd?: () => void;
 }
 
 export type ModalResolverProps = ViewProps & ComponentProps;
 
-export class ModalResolver extends React.Component<ModalResolverProps> {
+interface State {
+  visible: boolean;
+  isExiting: boolean;
+  // center of rendered children, which are positioned absolutely
+  contentCenter: AnimationOrigin;
+}
+
+export class ModalResolver extends React.Component<ModalResolverProps, State> {
 
   static defaultProps: Partial<ModalResolverProps> = {
     visible: false,
   };
 
+  public state: State = {
+    visible: false,
+    isExiting: false,
+    contentCenter: { x: 0, y: 0 },
+  };
+
+  private childLayouts: LayoutRectangle[] = [];
+  private progress: Animated.Value = new Animated.Value(0);
+  private presentation: Animated.CompositeAnimation | null = null;
+
+  // Keeps content rendered once it is hidden with animation, until exit animation is finished
+  public static getDerivedStateFromProps(props: ModalResolverProps, state: State): Partial<State> | null {
+    if (props.visible === state.visible) {
+      return null;
+    }
+
+    return {
+      visible: props.visible,
+      isExiting: !props.visible && isAnimated(props.animation),
+    };
+  }
+
+  public componentDidMount(): void {
+    if (this.props.visible) {
+      this.startPresentation(1);
+    }
+  }
+
+  public componentDidUpdate(prevProps: ModalResolverProps): void {
+    if (prevProps.visible !== this.props.visible) {
+      this.startPresentation(this.props.visible ? 1 : 0);
+    }
+  }
+
+  public componentWillUnmount(): void {
+    this.stopPresentation();
+  }
+
+  private startPresentation = (toValue: number): void => {
+    const { animation } = this.props;
+
+    this.stopPresentation();
+
+    if (!isAnimated(animation)) {
+      this.progress.setValue(toValue);
+      return;
+    }
+
+    this.presentation = createPresentationAnimation(animation, this.progress, toValue);
+    this.presentation.start(toValue === 0 ? this.onExitAnimationEnd : undefined);
+  };
+
+  private stopPresentation = (): void => {
+    if (this.presentation) {
+      this.presentation.stop();
+      this.presentation = null;
+    }
+  };
+
+  private onExitAnimationEnd = ({ finished }: Animated.EndResult): void => {
+    if (!finished) {
+      return;
+    }
+
+    this.setState({ isExiting: false });
+
+    if (this.props.onExitAnimationEnd) {
+      this.props.onExitAnimationEnd();
+    }
+  };
+
   private onBackdropPress = (): void => {
     const { allowBackdrop, onBackdropPress } = this.props;
 
-    if (allowBackdrop) {
+    if (allowBackdrop && !this.state.isExiting) {
       onBackdropPress();
     }
   };
 
+  private onChildLayout = (index: number, event: LayoutChangeEvent): void => {
+    this.childLayouts[index] = event.nativeEvent.layout;
+
+    const layouts: LayoutRectangle[] = this.childLayouts.filter(Boolean);
+
+    const minX: number = Math.min(...layouts.map((layout: LayoutRectangle): number => layout.x));
+    const minY: number = Math.min(...layouts.map((layout: LayoutRectangle): number => layout.y));
+    const maxX: number = Math.max(...layouts.map((layout: LayoutRectangle): number => layout.x + layout.width));
+    const maxY: number = Math.max(...layouts.map((layout: LayoutRectangle): number => layout.y + layout.height));
+
+    this.setState({ contentCenter: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 } });
+  };
+
   private onStartShouldSetResponder = (): boolean => {
     return true;
   };
@@ -85,9 +188,35 @@ export class ModalResolver extends React.Component<ModalResolverProps> {
     );
   };
 
+  private renderMeasuredChild = (source: React.ReactElement<any>, index: number): React.ReactElement<any> => {
+    return React.cloneElement(source, {
+      onLayout: (event: LayoutChangeEvent): void => {
+        this.onChildLayout(index, event);
+
+        if (source.props.onLayout) {
+          source.props.onLayout(event);
+        }
+      },
+    });
+  };
+
+  // Children are positioned absolutely, so animated view has no size and is scaled around content center instead
+  private renderAnimatedChildren = (source: React.ReactElement<any>[]): React.ReactElement<ViewProps> => {
+    const animationStyle = createAnimationStyle(this.props.animation, this.progress, this.state.contentCenter);
+
+    return (
+      <Animated.View
+        style={[styles.container, animationStyle]}
+        pointerEvents='box-none'>
+        {source.map(this.renderMeasuredChild)}
+      </Animated.View>
+    );
+  };
+
   private renderComponent = (): React.ReactElement<TouchableOpacityProps | ViewProps> => {
-    const { children, allowBackdrop, ...derivedProps } = this.props;
+    const { children, allowBackdrop, animation, onExitAnimationEnd, ...derivedProps } = this.props;
     const componentChildren: React.ReactElement<any>[] = this.renderComponentChildren(children);
+    const isExiting: boolean = this.state.isExiting;
 
     const dialog: React.ReactElement<ViewProps> =
       <View
@@ -96,8 +225,8 @@ export class ModalResolver extends React.Component<ModalResolverProps> {
         onStartShouldSetResponder={this.onStartShouldSetResponder}
         onResponderRelease={this.onResponderRelease}
         onStartShouldSetResponderCapture={this.onStartShouldSetResponderCapture}
-        pointerEvents='box-none'>
-        {componentChildren}
+        pointerEvents={isExiting ? 'none' : 'box-none'}>
+        {isAnimated(animation) ? this.renderAnimatedChildren(componentChildren) : componentChildren}
       </View>;
 
     return allowBackdrop ?
@@ -105,7 +234,7 @@ export class ModalResolver extends React.Component<ModalResolverProps> {
   };
 
   public render(): React.ReactElement<ViewProps | TouchableOpacityProps> | null {
-    return this.props.visible ? this.renderComponent() : null;
+    return this.props.visible || this.state.isExiting ? this.renderComponent() : null;
   }
 }
 
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import { ModalPanel } from './modalPanel.component';
+
+export interface PortalHostProps {
+  name: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * Renders modal components shown with matching `hostName` inside of its children,
+ * e.g to keep popovers within a nested navigator screen instead of application root.
+ *
+ * @extends React.Component
+ *
+ * @property {string} name - Determines the name to refer host with `hostName` option of `ModalService`,
+ * or `hostName` property of `Modal` and `Popover`.
+ *
+ * @property {React.ReactNode} children - Determines content to render modal components above.
+ * Host is registered before children are mounted, so that they may show components within it on mount.
+ *
+ * @example PortalHost usage example
+ *
+ * ```
+ * import React from 'react';
+ * import {
+ *   Modal,
+ *   PortalHost,
+ *   Text,
+ * } from 'react-native-ui-kitten';
+ * import { Settings } from './path-to/settings.component';
+ *
+ * export const SettingsScreen = (): React.ReactElement => {
+ *   return (
+ *     <PortalHost name='settings'>
+ *       <Settings/>
+ *       <Modal
+ *         visible={true}
+ *         hostName='settings'>
+ *         <Text>Rendered within SettingsScreen</Text>
+ *       </Modal>
+ *     </PortalHost>
+ *   );
+ * };
+ * ```
+ */
+export class PortalHost extends React.Component<PortalHostProps> {
+
+  public render(): React.ReactElement {
+    const { name, children } = this.props;
+
+    return (
+      <ModalPanel name={name}>
+        {children}
+      </ModalPanel>
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import { ThemeStyleType } from '@eva-design/dss';
+import {
+  ContextProps,
+  StyledComponentProps,
+} from './styleConsumer.component';
+import { StyleConsumerService } from './styleConsumer.service';
+import { StyleType } from './type';
+import { ThemeType } from '../theme/type';
+import {
+  DiagnosticsService,
+  defaultDiagnostics,
+} from '../diagnostics/diagnostics.service';
+import {
+  StyleIssue,
+  StyleIssueType,
+} from '../diagnostics/type';
+
+/**
+ * Issues making a component unable to be styled with requested configuration.
+ * The rest of them, like unsupported mapping parameters, are reported as usual.
+ */
+const CONFIGURATION_ISSUES: StyleIssueType[] = [
+  StyleIssueType.UNKNOWN_COMPONENT,
+  StyleIssueType.INVALID_APPEARANCE,
+  StyleIssueType.INVALID_VARIANT,
+  StyleIssueType.UNKNOWN_INTERACTION,
+  StyleIssueType.UNSUPPORTED_CONFIGURATION,
+];
+
+/**
+ * Singleton service designed to resolve styles of components without rendering them.
+ *
+ * @type StyleServiceType
+ *
+ * @method {(componentName: string, props: object, interactions: string[], theme: ThemeType,
+ * styles: ThemeStyleType, breakpoints?: string[]) => ComponentStyleResult} getComponentStyle -
+ * Resolves `themedStyle` the component receives once rendered with the same props and interactions.
+ * Returns `error` instead if the configuration is invalid.
+ *
+ * @example Simple Usage example
+ *
+ * ```
+ * import { mapping, light as lightTheme } from '@eva-design/eva';
+ * import { StyleService } from 'react-native-ui-kitten';
+ *
+ * // Styles processed from mapping, e.g created with `ui-kitten precompile-mapping` command
+ * import styles from './path-to/styles.json';
+ *
+ * const { themedStyle, error } = StyleService.getComponentStyle(
+ *   'Button',
+ *   { status: 'danger', size: 'small', disabled: true },
+ *   [],
+ *   lightTheme,
+ *   styles,
+ * );
+ *
+ * if (error) {
+ *   // e.g { component: 'Button', issues: [{ prop: 'status', value: 'dangr', suggestion: 'danger', ... }] }
+ * }
+ * ```
+ */
+class StyleServiceType {
+
+  public getComponentStyle<P extends object>(componentName: string,
+                                             props: P & StyledComponentProps,
+                                             interactions: string[],
+                                             theme: ThemeType,
+                                             styles: ThemeStyleType,
+                                             breakpoints: string[] = []): ComponentStyleResult {
+
+    const issues: StyleIssue[] = [];
+
+    const context: ContextProps = {
+      style: styles,
+      theme: theme,
+      breakpoints: breakpoints,
+      diagnostics: new DiagnosticsService({
+        mode: 'silent',
+        onIssue: (issue: StyleIssue): void => {
+          issues.push(issue);
+        },
+      }),
+    };
+
+    const service: StyleConsumerService = new StyleConsumerService(componentName, context);
+
+    if (issues.length !== 0) {
+      return this.createErrorResult(componentName, issues);
+    }
+
+    const source: StyledComponentProps = { ...service.createDefaultProps(), ...props };
+    const { themedStyle } = service.withStyledProps(source, context, interactions);
+
+    const configurationIssues: StyleIssue[] = issues.filter(this.isConfigurationIssue);
+
+    if (configurationIssues.length !== 0) {
+      return this.createErrorResult(componentName, configurationIssues);
+    }
+
+    issues.forEach((issue: StyleIssue) => {
+      defaultDiagnostics.report(issue);
+    });
+
+    return { themedStyle };
+  }
+
+  private isConfigurationIssue = (issue: StyleIssue): boolean => {
+    return CONFIGURATION_ISSUES.includes(issue.type);
+  };
+
+  private createErrorResult = (component: string, issues: StyleIssue[]): ComponentStyleResult => {
+    const message: string = issues.map((issue: StyleIssue): string => issue.message).join('\n');
+
+    return {
+      error: { component, message, issues },
+    };
+  };
+}
+
+export interface ComponentStyleError {
+  component: string;
+  message: string;
+  issues: StyleIssue[];
+}
+
+export interface ComponentStyleResult {
+  themedStyle?: StyleType;
+  error?: ComponentStyleError;
+}
+
+export const StyleService = new StyleServiceType();
@@ -0,0 +1,100 @@
+import {
+  Interaction,
+  InteractionDispatch,
+  InteractionReducer,
+} from './type';
+
+const createBuiltInInteractions = (): Set<string> => {
+  return new Set(Object.keys(Interaction).map((key: string): string => {
+    return Interaction[key as keyof typeof Interaction];
+  }));
+};
+
+let interactions: Set<string> = createBuiltInInteractions();
+
+/**
+ * Registers custom interactions, so that styled components are able to dispatch them along with built-in ones.
+ * Registered interaction is resolved the same way as built-in one does,
+ * so that component mapping should declare it in `meta.states`.
+ *
+ * @param values (string[]) - interaction names
+ *
+ * @example Custom Interaction Usage
+ *
+ * ```
+ * import React from 'react';
+ * import { View, ViewProps } from 'react-native';
+ * import { Interaction, registerInteractions, styled, StyledComponentProps } from 'react-native-ui-kitten';
+ *
+ * export enum CustomInteraction {
+ *   HOVER = 'hover',
+ *   DRAGGING = 'dragging',
+ * }
+ *
+ * registerInteractions(CustomInteraction.HOVER, CustomInteraction.DRAGGING);
+ *
+ * type CardProps = ViewProps & StyledComponentProps<string, Interaction | CustomInteraction>;
+ *
+ * class Card extends React.Component<CardProps> {
+ *
+ *   static styledComponentName: string = 'Card';
+ *
+ *   private onDragStart = () => {
+ *     this.props.dispatch.add(CustomInteraction.DRAGGING);
+ *   };
+ *   ...
+ * }
+ * ```
+ */
+export function registerInteractions(...values: string[]): void {
+  values.forEach((value: string) => {
+    interactions.add(value);
+  });
+}
+
+/**
+ * Removes custom interactions, keeping built-in ones only. E.g to isolate tests registering interactions.
+ */
+export function resetInteractions(): void {
+  interactions = createBuiltInInteractions();
+}
+
+export function isRegisteredInteraction(value: string): boolean {
+  return interactions.has(value);
+}
+
+export function getRegisteredInteractions(): string[] {
+  return Array.from(interactions);
+}
+
+/**
+ * Creates `dispatch` function provided to styled components.
+ *
+ * Calling it directly replaces current interactions,
+ * while `add` and `remove` keep the rest of them, so that e.g focused component stays focused once pressed.
+ *
+ * @param update - interaction update callback. Receives a reducer producing next interactions from current ones
+ *
+ * @return (InteractionDispatch) - dispatch function
+ */
+export function createInteractionDispatch<I extends string>(update: (reducer: InteractionReducer<I>) => void):
+  InteractionDispatch<I> {
+
+  const dispatch = (interaction: I[]): void => {
+    update((): I[] => interaction);
+  };
+
+  const add = (value: I): void => {
+    update((interaction: I[]): I[] => {
+      return interaction.includes(value) ? interaction : [...interaction, value];
+    });
+  };
+
+  const remove = (value: I): void => {
+    update((interaction: I[]): I[] => {
+      return interaction.includes(value) ? interaction.filter((item: I): boolean => item !== value) : interaction;
+    });
+  };
+
+  return Object.assign(dispatch, { add, remove });
+}
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import { ThemeStyleType } from '@eva-design/dss';
+import { StyleConsumerService } from './styleConsumer.service';
+import {
+  ContextProps,
+  StyledComponentProps,
+} from './styleConsumer.component';
+import { createInteractionDispatch } from './interaction.service';
+import { useStyleTransition } from './styleTransition.hook';
+import {
+  Interaction,
+  InteractionDispatch,
+  StyleType,
+} from './type';
+import { MappingContext } from '../mapping/mappingContext';
+import { ThemeContext } from '../theme/themeContext';
+import { ThemeType } from '../theme/type';
+import { BreakpointContext } from '../breakpoint/breakpointContext';
+import { DensityContext } from '../density/densityContext';
+import { Density } from '../density/type';
+import { DiagnosticsContext } from '../diagnostics/diagnosticsContext';
+import { DiagnosticsService } from '../diagnostics/diagnostics.service';
+
+export type StyledHookValue<I extends string = Interaction> =
+  Pick<StyledComponentProps<string, I>, 'theme' | 'themedStyle' | 'dispatch'>;
+
+/**
+ * Hook which is used to apply style mapping inside function components.
+ * Works the same way as `styled` function does, but without requiring static `styledComponentName` property.
+ *
+ * @param {string} name - Determines corresponding component name in mapping (e.g 'Button' for Button component).
+ *
+ * @param props - Determines component props. Used to retrieve appearance, variants and states.
+ *
+ * @return {StyledHookValue} - Object containing `theme`, `themedStyle` for component's current state
+ * and `dispatch` function used to request styles for interactions.
+ * Colors and opacity declared in `meta.transitions` of component mapping are animated once styles change.
+ * These are provided within `themedStyle` as animated values, so should be applied to `Animated` components.
+ *
+ * @example Styled Hook Usage
+ *
+ * ```
+ * import React from 'react';
+ * import { TouchableOpacity, TouchableOpacityProps } from 'react-native';
+ * import { useStyled, Interaction } from 'react-native-ui-kitten';
+ *
+ * interface ButtonProps extends TouchableOpacityProps {
+ *   status?: string;
+ * }
+ *
+ * export const Button = (props?: ButtonProps): React.ReactElement<TouchableOpacityProps> => {
+ *   const { themedStyle, dispatch } = useStyled('Button', props);
+ *
+ *   const onPressIn = () => {
+ *     // Request styles for `active` state and re-render
+ *
+ *     dispatch.add(Interaction.ACTIVE);
+ *   };
+ *
+ *   const onPressOut = () => {
+ *     // Request styles without `active` state and re-render
+ *
+ *     dispatch.remove(Interaction.ACTIVE);
+ *   };
+ *
+ *   return (
+ *     <TouchableOpacity
+ *       {...props}
+ *       style={[themedStyle, props.style]}
+ *       onPressIn={onPressIn}
+ *       onPressOut={onPressOut}
+ *     />
+ *   );
+ * };
+ * ```
+ */
+export const useStyled = <P extends object, I extends string = Interaction>(name: string,
+                                                                           props: P): StyledHookValue<I> => {
+  const style: ThemeStyleType = React.useContext(MappingContext);
+  const theme: ThemeType = React.useContext(ThemeContext);
+  const diagnostics: DiagnosticsService = React.useContext(DiagnosticsContext);
+  const breakpoints: string[] = React.useContext(BreakpointContext);
+  const density: Density = React.useContext(DensityContext);
+
+  const [interaction, setInteraction] = React.useState<I[]>([]);
+
+  const dispatch: InteractionDispatch<I> = React.useMemo((): InteractionDispatch<I> => {
+    return createInteractionDispatch(setInteraction);
+  }, []);
+
+  const service: StyleConsumerService = React.useMemo((): StyleConsumerService => {
+    return new StyleConsumerService(name, { style, theme, diagnostics });
+  }, [name, style, diagnostics]);
+
+  const defaultProps: StyledComponentProps = React.useMemo((): StyledComponentProps => {
+    return service.createDefaultProps();
+  }, [service]);
+
+  const context: ContextProps = { style, theme, diagnostics, breakpoints, density };
+  const { themedStyle } = service.withStyledProps({ ...defaultProps, ...props }, context, interaction);
+  const transitionStyle: StyleType = useStyleTransition(themedStyle, theme, service.getTransitions());
+
+  return { theme, themedStyle: transitionStyle, dispatch };
+};
@@ -1,12 +1,77 @@
 import { ThemedStyleType } from '@eva-design/dss';
 import { StyleType } from './type';
 import { getThemeValue } from '../theme/theme.service';
-import { ThemeType } from '../theme/type';
+import { isColorExpression } from '../theme/colorExpression.service';
+import {
+  CONDITION_KEYS,
+  SEPARATOR_CONDITION,
+} from '../mapping/mapping.service';
+import {
+  StyleSheetType,
+  ThemeType,
+} from '../theme/type';
 
 export function createThemedStyle(mapping: ThemedStyleType, theme: ThemeType): StyleType {
   return Object.keys(mapping).reduce((acc: StyleType, current: string): StyleType => {
     const mappingValue: any = mapping[current];
 
+    // Invalid expressions are dropped rather than applied as is, since they are not valid colors
+    if (isColorExpression(mappingValue)) {
+      const value: any = getThemeValue(mappingValue, theme);
+
+      return value !== undefined ? { ...acc, [current]: value } : acc;
+    }
+
     return { ...acc, [current]: getThemeValue(mappingValue, theme, mappingValue) };
   }, {});
 }
+
+export function createThemedStyleSheet(style: StyleSheetType, theme: ThemeType): StyleSheetType {
+  return Object.keys(style).reduce((acc: StyleSheetType, current: string): StyleSheetType => {
+    return { ...acc, [current]: createThemedStyle(style[current], theme) };
+  }, {});
+}
+
+/**
+ * Applies conditional parameters matching `platform` and `breakpoints` and removes the rest of them
+ *
+ * Example:
+ *
+ * mapping = { borderWidth: 1, 'platform.ios.borderWidth': 2, 'breakpoints.tablet.borderWidth': 3 }
+ * platform = 'ios', breakpoints = []
+ *
+ * will return { borderWidth: 2 }
+ *
+ * @param mapping (ThemedStyleType) - generated mapping containing conditional parameters
+ * @param platform (string) - current platform
+ * @param breakpoints (string[]) - matching breakpoints, ordered by width ascending
+ *
+ * @return (ThemedStyleType) - mapping without conditional parameters
+ */
+export function resolveConditionalParameters(mapping: ThemedStyleType,
+                                             platform: string,
+                                             breakpoints: string[]): ThemedStyleType {
+
+  const keys: string[] = Object.keys(mapping);
+
+  const isConditional = (key: string): boolean => CONDITION_KEYS.some((condition: string): boolean => {
+    return key.startsWith(`${condition}${SEPARATOR_CONDITION}`);
+  });
+
+  const parameters: ThemedStyleType = keys
+    .filter((key: string): boolean => !isConditional(key))
+    .reduce((acc: ThemedStyleType, key: string): ThemedStyleType => ({ ...acc, [key]: mapping[key] }), {});
+
+  const prefixes: string[] = [
+    ['platform', platform],
+    ...breakpoints.map((breakpoint: string): string[] => ['breakpoints', breakpoint]),
+  ].map((parts: string[]): string => `${parts.join(SEPARATOR_CONDITION)}${SEPARATOR_CONDITION}`);
+
+  return prefixes.reduce((acc: ThemedStyleType, prefix: string): ThemedStyleType => {
+    return keys
+      .filter((key: string): boolean => key.startsWith(prefix))
+      .reduce((prefixAcc: ThemedStyleType, key: string): ThemedStyleType => {
+        return { ...prefixAcc, [key.substring(prefix.length)]: mapping[key] };
+      }, acc);
+  }, parameters);
+}
@@ -1,5 +1,12 @@
 import React from 'react';
+import merge from 'lodash.merge';
 import {
+  SchemaType,
+  ThemeStyleType,
+} from '@eva-design/dss';
+import { SchemaProcessor } from '@eva-design/processor';
+import {
+  Animated,
   TouchableOpacity,
   View,
   ViewProps,
@@ -10,7 +17,10 @@ import {
   RenderAPI,
   waitForElement,
 } from 'react-native-testing-library';
-import { ReactTestInstance } from 'react-test-renderer';
+import {
+  act,
+  ReactTestInstance,
+} from 'react-test-renderer';
 import {
   StyleProvider,
   StyleProviderProps,
@@ -21,7 +31,21 @@ import {
   ContextProps,
 } from './styleConsumer.component';
 import { StyleConsumerService } from './styleConsumer.service';
+import {
+  registerInteractions,
+  resetInteractions,
+} from './interaction.service';
+import { useStyled } from './style.hook';
+import {
+  ComponentStyleResult,
+  StyleService,
+} from './componentStyle.service';
+import * as StyleServiceModule from './style.service';
 import { createThemedStyle } from './style.service';
+import {
+  createAnimatedStyle,
+  createStyleInterpolation,
+} from './styleTransition.service';
 import {
   Interaction,
   StyleType,
@@ -30,11 +54,16 @@ import {
   ThemedStyleType,
   ThemeType,
 } from '../theme/type';
+import { getThemeValue } from '../theme/theme.service';
+import { parseColor } from '../theme/color.service';
 import {
+  mapping as schema,
   styles,
   theme,
   themeInverse,
 } from '../support/tests';
+import { DiagnosticsService } from '../diagnostics/diagnostics.service';
+import { StyleIssueType } from '../diagnostics/type';
 
 const styleConsumerTestId = '@style/consumer';
 const styleTouchableTestId = '@style/touchable';
@@ -96,6 +125,46 @@ class NonStyledComponent extends React.Component<TestComponentProps> {
 
 const json = (value: any): string => JSON.stringify(value);
 
+// Base class of animated values, not provided with typings
+const AnimatedNode: Function = (Animated as any).Node;
+
+// Resolves current values of animated style parameters
+const getStyleValue = (style: StyleType): StyleType => {
+  return Object.keys(style).reduce((acc: StyleType, parameter: string): StyleType => {
+    const value: any = style[parameter];
+    const isAnimated: boolean = value instanceof AnimatedNode;
+
+    return { ...acc, [parameter]: isAnimated ? value.__getValue() : value };
+  }, {});
+};
+
+const createStatefulMapping = (state: string, parameters: ThemedStyleType): SchemaType => {
+  return merge({}, schema, {
+    components: {
+      Radio: {
+        meta: {
+          states: {
+            [state]: {
+              default: false,
+              priority: 3,
+              scope: 'all',
+            },
+          },
+        },
+        appearances: {
+          default: {
+            mapping: {
+              state: {
+                [state]: parameters,
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+};
+
 describe('@style: consumer service methods check', () => {
 
   const context: ContextProps = {
@@ -136,6 +205,195 @@ describe('@style: consumer service methods check', () => {
 
   });
 
+  describe('* style cache', () => {
+
+    const props: StyledComponentProps & any = {
+      ...service.createDefaultProps(),
+      disabled: true,
+    };
+
+    it('shares themedStyle between identical configurations', () => {
+      const value1: StyledComponentProps = service.withStyledProps(props, context, [Interaction.ACTIVE]);
+      const value2: StyledComponentProps = service.withStyledProps({ ...props }, context, [Interaction.ACTIVE]);
+
+      expect(value1.themedStyle).toBe(value2.themedStyle);
+    });
+
+    it('shares themedStyle regardless of state order', () => {
+      const value1: StyledComponentProps = service.withStyledProps({
+        ...props,
+        checked: true,
+      }, context, [Interaction.ACTIVE]);
+      const value2: StyledComponentProps = service.withStyledProps({
+        checked: true,
+        ...props,
+      }, context, [Interaction.ACTIVE]);
+
+      expect(value1.themedStyle).toBe(value2.themedStyle);
+    });
+
+    it('does not share themedStyle between different configurations', () => {
+      const value1: StyledComponentProps = service.withStyledProps(props, context, [Interaction.ACTIVE]);
+      const value2: StyledComponentProps = service.withStyledProps({
+        ...props,
+        checked: true,
+      }, context, [Interaction.ACTIVE]);
+
+      expect(value1.themedStyle).not.toBe(value2.themedStyle);
+    });
+
+    it('does not share themedStyle between themes', () => {
+      const inverseContext: ContextProps = { ...context, theme: themeInverse };
+
+      const value1: StyledComponentProps = service.withStyledProps(props, context, []);
+      const value2: StyledComponentProps = service.withStyledProps(props, inverseContext, []);
+
+      expect(value1.themedStyle).not.toBe(value2.themedStyle);
+      expect(json(value2.themedStyle)).toEqual(json(createThemedStyle(styles.Radio.styles['default.disabled'],
+        themeInverse)));
+    });
+
+    it('resolves cached themedStyle without creating it again', () => {
+      // Holds a copy of styles, so that nothing is resolved from cache of previous tests
+      const uncachedContext: ContextProps = { ...context, style: JSON.parse(json(styles)) };
+      const createSpy = jest.spyOn(StyleServiceModule, 'createThemedStyle');
+
+      const value1: StyledComponentProps = service.withStyledProps(props, uncachedContext, [Interaction.ACTIVE]);
+      const value2: StyledComponentProps = service.withStyledProps({ ...props }, uncachedContext, [Interaction.ACTIVE]);
+
+      expect(createSpy).toHaveBeenCalledTimes(1);
+      expect(value1.themedStyle).toBe(value2.themedStyle);
+
+      createSpy.mockRestore();
+    });
+
+  });
+
+  describe('* color expressions', () => {
+
+    const onIssue = jest.fn();
+
+    const createExpressionContext = (borderColor: string): ContextProps => ({
+      style: new SchemaProcessor().process(createStatefulMapping(Interaction.FOCUSED, { borderColor })),
+      theme: theme,
+      diagnostics: new DiagnosticsService({ mode: 'silent', onIssue }),
+    });
+
+    it('* applies valid expression', () => {
+      const expressionContext: ContextProps = createExpressionContext('alpha($pink-primary, 0.5)');
+      const expressionService: StyleConsumerService = new StyleConsumerService('Radio', expressionContext);
+
+      const props: StyledComponentProps = expressionService.createDefaultProps();
+      const value: StyledComponentProps = expressionService.withStyledProps(props, expressionContext, [
+        Interaction.FOCUSED,
+      ]);
+
+      expect(value.themedStyle.borderColor).toEqual(getThemeValue('alpha($pink-primary, 0.5)', theme));
+    });
+
+    it('* reports and drops invalid expression', () => {
+      const expressionContext: ContextProps = createExpressionContext('alpha($pink-primary, 2)');
+      const expressionService: StyleConsumerService = new StyleConsumerService('Radio', expressionContext);
+
+      const props: StyledComponentProps = expressionService.createDefaultProps();
+      const value: StyledComponentProps = expressionService.withStyledProps(props, expressionContext, [
+        Interaction.FOCUSED,
+      ]);
+
+      expect(value.themedStyle.borderColor).toBeUndefined();
+      expect(onIssue).toBeCalledWith(expect.objectContaining({
+        type: StyleIssueType.INVALID_EXPRESSION,
+        prop: 'borderColor',
+        value: 'alpha($pink-primary, 2)',
+      }));
+    });
+
+  });
+
+  describe('* custom interactions', () => {
+
+    const hoverMapping: SchemaType = createStatefulMapping('hover', { borderColor: 'pink-primary' });
+
+    let onIssue: jest.Mock;
+    let hoverContext: ContextProps;
+    let hoverService: StyleConsumerService;
+
+    beforeEach(() => {
+      onIssue = jest.fn();
+
+      hoverContext = {
+        style: new SchemaProcessor().process(hoverMapping),
+        theme: theme,
+        diagnostics: new DiagnosticsService({ mode: 'silent', onIssue }),
+      };
+
+      hoverService = new StyleConsumerService('Radio', hoverContext);
+    });
+
+    afterEach(() => {
+      resetInteractions();
+    });
+
+    it('* ignores unregistered interaction', () => {
+      const props: StyledComponentProps = hoverService.createDefaultProps();
+
+      const value: StyledComponentProps = hoverService.withStyledProps(props, hoverContext, ['hover']);
+      const defaultValue: StyledComponentProps = hoverService.withStyledProps(props, hoverContext, []);
+
+      expect(value.themedStyle).toEqual(defaultValue.themedStyle);
+      expect(onIssue.mock.calls[0][0]).toMatchObject({
+        type: StyleIssueType.UNKNOWN_INTERACTION,
+        value: 'hover',
+      });
+    });
+
+    it('* applies registered interaction', () => {
+      registerInteractions('hover');
+
+      const props: StyledComponentProps = hoverService.createDefaultProps();
+
+      const value: StyledComponentProps = hoverService.withStyledProps(props, hoverContext, ['hover']);
+      const activeValue: StyledComponentProps = hoverService.withStyledProps(props, hoverContext, [
+        'hover',
+        Interaction.ACTIVE,
+      ]);
+
+      expect(value.themedStyle.borderColor).toEqual(theme['pink-primary']);
+      expect(activeValue.themedStyle).toEqual(createThemedStyle(
+        hoverContext.style.Radio.styles['default.active.hover'], theme));
+      expect(onIssue).not.toBeCalled();
+    });
+
+    it('* ignores registered interaction missing in component mapping', () => {
+      registerInteractions('hover');
+
+      const radioContext: ContextProps = { ...hoverContext, style: styles };
+      const radioService: StyleConsumerService = new StyleConsumerService('Radio', radioContext);
+      const props: StyledComponentProps = radioService.createDefaultProps();
+
+      const value: StyledComponentProps = radioService.withStyledProps(props, radioContext, ['hover']);
+      const defaultValue: StyledComponentProps = radioService.withStyledProps(props, radioContext, []);
+
+      expect(value.themedStyle).toBe(defaultValue.themedStyle);
+      expect(onIssue.mock.calls[0][0]).toMatchObject({
+        type: StyleIssueType.UNKNOWN_INTERACTION,
+        value: 'hover',
+        options: [Interaction.ACTIVE],
+      });
+    });
+
+    it('* forgets custom interactions once reset', () => {
+      registerInteractions('hover');
+      resetInteractions();
+
+      const props: StyledComponentProps = hoverService.createDefaultProps();
+      hoverService.withStyledProps(props, hoverContext, ['hover']);
+
+      expect(onIssue).toBeCalledWith(expect.objectContaining({ type: StyleIssueType.UNKNOWN_INTERACTION }));
+    });
+
+  });
+
 });
 
 describe('@style: service methods checks', () => {
@@ -239,6 +497,189 @@ describe('@style: ui component checks', () => {
     expect(styledComponentChanged.props.themedStyle).toMatchSnapshot();
   });
 
+  it('* composes dispatched interactions', async () => {
+    const StyleConsumer = styled<TestComponentProps>(Test);
+    const focusedStyles: ThemeStyleType = new SchemaProcessor().process(
+      createStatefulMapping(Interaction.FOCUSED, { borderColor: 'pink-primary' }),
+    );
+
+    const component: RenderAPI = render(
+      <StyleProvider styles={focusedStyles} theme={theme}>
+        <StyleConsumer/>
+      </StyleProvider>,
+    );
+
+    const styledComponent: ReactTestInstance = component.getByTestId(styleConsumerTestId);
+
+    act(() => {
+      styledComponent.props.dispatch.add(Interaction.FOCUSED);
+      styledComponent.props.dispatch.add(Interaction.ACTIVE);
+    });
+
+    const activeFocusedComponent: ReactTestInstance = await waitForElement(() => {
+      return component.getByTestId(styleConsumerTestId);
+    });
+
+    expect(json(activeFocusedComponent.props.themedStyle)).toEqual(json(createThemedStyle(
+      focusedStyles.Radio.styles['default.active.focused'], theme)));
+
+    act(() => {
+      styledComponent.props.dispatch.remove(Interaction.ACTIVE);
+    });
+
+    const focusedComponent: ReactTestInstance = await waitForElement(() => {
+      return component.getByTestId(styleConsumerTestId);
+    });
+
+    expect(json(focusedComponent.props.themedStyle)).toEqual(json(createThemedStyle(
+      focusedStyles.Radio.styles['default.focused'], theme)));
+  });
+
+  it('* animates style transition', () => {
+    jest.useFakeTimers();
+
+    const StyleConsumer = styled<TestComponentProps>(Test);
+    const transitionStyles: ThemeStyleType = new SchemaProcessor().process(merge(
+      createStatefulMapping(Interaction.FOCUSED, { borderColor: 'pink-primary' }),
+      { components: { Radio: { meta: { transitions: { borderColor: 200 } } } } },
+    ));
+
+    const component: RenderAPI = render(
+      <StyleProvider styles={transitionStyles} theme={theme}>
+        <StyleConsumer/>
+      </StyleProvider>,
+    );
+
+    const { themedStyle, dispatch } = component.getByTestId(styleConsumerTestId).props;
+
+    act(() => {
+      dispatch.add(Interaction.FOCUSED);
+    });
+
+    const transitionStyle: StyleType = component.getByTestId(styleConsumerTestId).props.themedStyle;
+    const focusedStyle: StyleType = createThemedStyle(transitionStyles.Radio.styles['default.focused'], theme);
+
+    expect(transitionStyle.borderColor).toBeInstanceOf(AnimatedNode);
+    expect(getStyleValue(transitionStyle).borderColor).toEqual(getStyleValue(themedStyle).borderColor);
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    const finalStyle: StyleType = component.getByTestId(styleConsumerTestId).props.themedStyle;
+
+    const { borderColor, ...finalStyleValue } = getStyleValue(finalStyle);
+    const { borderColor: focusedBorderColor, ...focusedStyleValue } = focusedStyle;
+
+    expect(finalStyle).toBe(transitionStyle);
+    expect(parseColor(borderColor)).toEqual(parseColor(focusedBorderColor));
+    expect(finalStyleValue).toEqual(focusedStyleValue);
+
+    component.unmount();
+    jest.useRealTimers();
+  });
+
+  it('* does not re-render component while transition runs', () => {
+    jest.useFakeTimers();
+
+    const renderSpy = jest.spyOn(Test.prototype, 'render');
+    const StyleConsumer = styled<TestComponentProps>(Test);
+    const transitionStyles: ThemeStyleType = new SchemaProcessor().process(merge(
+      createStatefulMapping(Interaction.FOCUSED, { borderColor: 'pink-primary' }),
+      { components: { Radio: { meta: { transitions: { borderColor: 200 } } } } },
+    ));
+
+    const component: RenderAPI = render(
+      <StyleProvider styles={transitionStyles} theme={theme}>
+        <StyleConsumer/>
+      </StyleProvider>,
+    );
+
+    renderSpy.mockClear();
+
+    act(() => {
+      component.getByTestId(styleConsumerTestId).props.dispatch.add(Interaction.FOCUSED);
+    });
+
+    // target props and transition started from rendered style
+    expect(renderSpy).toHaveBeenCalledTimes(2);
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    expect(renderSpy).toHaveBeenCalledTimes(2);
+
+    component.unmount();
+    renderSpy.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('* creates animated style', () => {
+    const elapsed: Animated.Value = new Animated.Value(0);
+    const style: StyleType = createAnimatedStyle(
+      elapsed,
+      { borderColor: '#000000', opacity: 0, width: 10 },
+      { borderColor: '#FFFFFF', opacity: 1, width: 20 },
+      { borderColor: 200, opacity: 100, width: 100 },
+    );
+
+    expect(style.width).toEqual(20);
+    expect(getStyleValue(style)).toEqual({ borderColor: 'rgba(0, 0, 0, 1)', opacity: 0, width: 20 });
+
+    elapsed.setValue(100);
+
+    expect(getStyleValue(style)).toEqual({ borderColor: 'rgba(128, 128, 128, 1)', opacity: 1, width: 20 });
+
+    elapsed.setValue(200);
+
+    expect(getStyleValue(style)).toEqual({ borderColor: 'rgba(255, 255, 255, 1)', opacity: 1, width: 20 });
+  });
+
+  it('* interpolates style parameters', () => {
+    const interpolate = createStyleInterpolation(
+      { borderColor: '#000000', opacity: 0, width: 10 },
+      { borderColor: '#FFFFFF', opacity: 1, width: 20 },
+      { borderColor: 200, opacity: 100, width: 100 },
+    );
+
+    expect(interpolate(0)).toEqual({ borderColor: '#000000', opacity: 0, width: 20 });
+    expect(interpolate(100)).toEqual({ borderColor: '#808080', opacity: 1, width: 20 });
+    expect(interpolate(200)).toEqual({ borderColor: '#FFFFFF', opacity: 1, width: 20 });
+  });
+
+  it('* transitions colors on theme change', () => {
+    jest.useFakeTimers();
+
+    const StyleConsumer = styled<TestComponentProps>(Test);
+
+    const renderProvider = (value: ThemeType): React.ReactElement => (
+      <StyleProvider styles={styles} theme={value} transition={{ duration: 300 }}>
+        <StyleConsumer/>
+      </StyleProvider>
+    );
+
+    const component: RenderAPI = render(renderProvider(theme));
+    const { themedStyle } = component.getByTestId(styleConsumerTestId).props;
+
+    component.update(renderProvider(themeInverse));
+
+    const transitionStyle: StyleType = component.getByTestId(styleConsumerTestId).props.themedStyle;
+    const inverseStyle: StyleType = createThemedStyle(styles.Radio.styles.default, themeInverse);
+
+    expect(transitionStyle.textColor).not.toEqual(inverseStyle.textColor);
+    expect(parseColor(transitionStyle.textColor)).toEqual(parseColor(themedStyle.textColor));
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    expect(json(component.getByTestId(styleConsumerTestId).props.themedStyle)).toEqual(json(inverseStyle));
+
+    component.unmount();
+    jest.useRealTimers();
+  });
+
   it('* provides correct styles on theme change', async () => {
     const StyleConsumer = styled<TestComponentProps>(Test);
 
@@ -267,3 +708,195 @@ describe('@style: ui component checks', () => {
   });
 
 });
+
+describe('@style: hooks checks', () => {
+
+  const HookTest = (props?: TestComponentProps): React.ReactElement<TestComponentProps> => {
+    const styledProps = useStyled('Radio', props);
+
+    return (
+      <Test {...styledProps}/>
+    );
+  };
+
+  it('* receives styled props', () => {
+    const component: RenderAPI = render(
+      <StyleProvider styles={styles} theme={theme}>
+        <HookTest/>
+      </StyleProvider>,
+    );
+
+    const styledComponent: ReactTestInstance = component.getByTestId(styleConsumerTestId);
+
+    expect(styledComponent.props.theme).toEqual(theme);
+    expect(styledComponent.props.themedStyle).not.toBeUndefined();
+    expect(styledComponent.props.dispatch).not.toBeUndefined();
+  });
+
+  it('* styled the same way as styled component', () => {
+    const StyleConsumer = styled<TestComponentProps>(Test);
+
+    const component: RenderAPI = render(
+      <StyleProvider styles={styles} theme={theme}>
+        <StyleConsumer disabled={true}/>
+      </StyleProvider>,
+    );
+
+    const hookComponent: RenderAPI = render(
+      <StyleProvider styles={styles} theme={theme}>
+        <HookTest disabled={true}/>
+      </StyleProvider>,
+    );
+
+    const styledComponent: ReactTestInstance = component.getByTestId(styleConsumerTestId);
+    const hookStyledComponent: ReactTestInstance = hookComponent.getByTestId(styleConsumerTestId);
+
+    expect(json(hookStyledComponent.props.themedStyle)).toEqual(json(styledComponent.props.themedStyle));
+  });
+
+  it('* dispatch action works properly', async () => {
+    const component: RenderAPI = render(
+      <StyleProvider styles={styles} theme={theme}>
+        <HookTest/>
+      </StyleProvider>,
+    );
+
+    const styledComponent: ReactTestInstance = component.getByTestId(styleConsumerTestId);
+    const { themedStyle } = styledComponent.props;
+
+    act(() => {
+      styledComponent.props.dispatch([Interaction.ACTIVE]);
+    });
+
+    const styledComponentChanged: ReactTestInstance = await waitForElement(() => {
+      return component.getByTestId(styleConsumerTestId);
+    });
+
+    expect(styledComponentChanged.props.themedStyle).not.toEqual(themedStyle);
+    expect(json(styledComponentChanged.props.themedStyle)).toEqual(json(createThemedStyle(
+      styles.Radio.styles['default.active'], theme)));
+  });
+
+
+  it('* animates style transition', () => {
+    jest.useFakeTimers();
+
+    const transitionStyles: ThemeStyleType = new SchemaProcessor().process(merge(
+      createStatefulMapping(Interaction.FOCUSED, { borderColor: 'pink-primary' }),
+      { components: { Radio: { meta: { transitions: { borderColor: 200 } } } } },
+    ));
+
+    const component: RenderAPI = render(
+      <StyleProvider styles={transitionStyles} theme={theme}>
+        <HookTest/>
+      </StyleProvider>,
+    );
+
+    act(() => {
+      component.getByTestId(styleConsumerTestId).props.dispatch.add(Interaction.FOCUSED);
+    });
+
+    const transitionStyle: StyleType = component.getByTestId(styleConsumerTestId).props.themedStyle;
+    const focusedStyle: StyleType = createThemedStyle(transitionStyles.Radio.styles['default.focused'], theme);
+
+    expect(transitionStyle.borderColor).toBeInstanceOf(AnimatedNode);
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    expect(parseColor(getStyleValue(transitionStyle).borderColor)).toEqual(parseColor(focusedStyle.borderColor));
+
+    component.unmount();
+    jest.useRealTimers();
+  });
+
+});
+
+describe('@style: style query checks', () => {
+
+  it('* resolves the same style as styled component', () => {
+    const StyleConsumer = styled<TestComponentProps>(Test);
+
+    const component: RenderAPI = render(
+      <StyleProvider styles={styles} theme={theme}>
+        <StyleConsumer disabled={true}/>
+      </StyleProvider>,
+    );
+
+    const styledComponent: ReactTestInstance = component.getByTestId(styleConsumerTestId);
+
+    const value: ComponentStyleResult = StyleService.getComponentStyle('Radio', { disabled: true }, [], theme, styles);
+
+    expect(value.error).toBeUndefined();
+    expect(value.themedStyle).toBe(styledComponent.props.themedStyle);
+  });
+
+  it('* resolves style for interactions', () => {
+    const interactions: Interaction[] = [Interaction.ACTIVE];
+
+    const value: ComponentStyleResult = StyleService.getComponentStyle('Radio', {}, interactions, theme, styles);
+
+    expect(json(value.themedStyle)).toEqual(json(createThemedStyle(styles.Radio.styles['default.active'], theme)));
+  });
+
+  it('* returns error for invalid appearance', () => {
+    const warn = jest.spyOn(console, 'warn');
+
+    const value: ComponentStyleResult = StyleService.getComponentStyle(
+      'Radio',
+      { appearance: 'defualt' },
+      [],
+      theme,
+      styles,
+    );
+
+    expect(value.themedStyle).toBeUndefined();
+    expect(value.error.component).toEqual('Radio');
+    expect(value.error.issues[0]).toMatchObject({
+      type: StyleIssueType.INVALID_APPEARANCE,
+      prop: 'appearance',
+      value: 'defualt',
+      suggestion: 'default',
+    });
+    expect(warn).not.toHaveBeenCalled();
+
+    warn.mockRestore();
+  });
+
+  it('* returns error for unknown interaction', () => {
+    const value: ComponentStyleResult = StyleService.getComponentStyle('Radio', {}, ['activ'], theme, styles);
+
+    expect(value.themedStyle).toBeUndefined();
+    expect(value.error.issues[0]).toMatchObject({
+      type: StyleIssueType.UNKNOWN_INTERACTION,
+      value: 'activ',
+      suggestion: Interaction.ACTIVE,
+    });
+  });
+
+  it('* returns error for interaction missing in component mapping', () => {
+    registerInteractions('hover');
+
+    const value: ComponentStyleResult = StyleService.getComponentStyle('Radio', {}, ['hover'], theme, styles);
+
+    resetInteractions();
+
+    expect(value.themedStyle).toBeUndefined();
+    expect(value.error.issues[0]).toMatchObject({
+      type: StyleIssueType.UNKNOWN_INTERACTION,
+      value: 'hover',
+    });
+  });
+
+  it('* returns error for unknown component', () => {
+    const value: ComponentStyleResult = StyleService.getComponentStyle('Radoi', {}, [], theme, styles);
+
+    expect(value.themedStyle).toBeUndefined();
+    expect(value.error.issues[0]).toMatchObject({
+      type: StyleIssueType.UNKNOWN_COMPONENT,
+      suggestion: 'Radio',
+    });
+  });
+
+});
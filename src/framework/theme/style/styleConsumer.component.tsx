@@ -8,32 +8,45 @@ import React from 'react';
 import hoistNonReactStatics from 'hoist-non-react-statics';
 import { ThemeStyleType } from '@eva-design/dss';
 import { StyleConsumerService } from './styleConsumer.service';
+import { createInteractionDispatch } from './interaction.service';
+import { StyleTransition } from './styleTransition.component';
 import {
   Interaction,
+  InteractionDispatch,
+  InteractionReducer,
+  StyleTransitions,
   StyleType,
 } from './type';
 import { MappingContext } from '../mapping/mappingContext';
 import { ThemeContext } from '../theme/themeContext';
 import { ThemeType } from '../theme/type';
+import { BreakpointContext } from '../breakpoint/breakpointContext';
+import { DensityContext } from '../density/densityContext';
+import { Density } from '../density/type';
+import { DiagnosticsContext } from '../diagnostics/diagnosticsContext';
+import { DiagnosticsService } from '../diagnostics/diagnostics.service';
 
 interface PrivateProps<T> {
   forwardedRef?: React.RefObject<T>;
 }
 
-export interface StyledComponentProps {
-  appearance?: string;
+export interface StyledComponentProps<Appearance extends string = string, I extends string = Interaction> {
+  appearance?: Appearance;
   theme?: ThemeType;
   themedStyle?: StyleType;
-  dispatch?: (interaction: Interaction[]) => void;
+  dispatch?: InteractionDispatch<I>;
 }
 
 interface State {
-  interaction: Interaction[];
+  interaction: string[];
 }
 
 export interface ContextProps {
   style: ThemeStyleType;
   theme: ThemeType;
+  diagnostics?: DiagnosticsService;
+  breakpoints?: string[];
+  density?: Density;
 }
 
 export type StyledComponentClass<P> = React.ComponentClass<StyledComponentProps & P>;
@@ -51,9 +64,14 @@ export type StyledComponentClass<P> = React.ComponentClass<StyledComponentProps
  *
  * @property {StyleType} themedStyle - Determines component style for it's current state.
  *
- * @property {(interaction: Interaction[]) => void} dispatch - Determines function
+ * @property {InteractionDispatch} dispatch - Determines function
  * for dispatching current state of component. This is designed to be used as style request function.
  * Calls component re-render if style for requested state differ from current.
+ * `dispatch(interactions)` replaces current interactions,
+ * while `dispatch.add(interaction)` and `dispatch.remove(interaction)` change a single one keeping the rest.
+ * Colors and opacity declared in `meta.transitions` of component mapping are animated once styles change.
+ * These are provided within `themedStyle` as animated values, so should be applied to `Animated` components.
+ * Custom interactions can be dispatched once registered with `registerInteractions` function.
  *
  * @param Component - Type: {React.ComponentClass}. Determines class or functional component to be styled.
  *
@@ -74,7 +92,7 @@ export type StyledComponentClass<P> = React.ComponentClass<StyledComponentProps
  *   private onPressIn = (e: GestureResponderEvent) => {
  *     // Request styles for `active` state and re-render
  *
- *     this.props.dispatch([Interaction.ACTIVE]);
+ *     this.props.dispatch.add(Interaction.ACTIVE);
  *
  *     if(this.props.onPressIn) {
  *       this.props.onPressIn(e);
@@ -82,9 +100,9 @@ export type StyledComponentClass<P> = React.ComponentClass<StyledComponentProps
  *   };
  *
  *   private onPressOut = (e: GestureResponderEvent) => {
- *     // Request styles for default state and re-render
+ *     // Request styles without `active` state and re-render
  *
- *     this.props.dispatch([]);
+ *     this.props.dispatch.remove(Interaction.ACTIVE);
  *
  *     if(this.props.onPressOut) {
  *       this.props.onPressOut(e);
@@ -147,7 +165,8 @@ export const styled = <P extends object>(Component: React.ComponentType<P>): Sty
       interaction: [],
     };
 
-    private init: boolean = false;
+    // Styles used to initialize the service. Re-initializing once mapping context provides another ones.
+    private initStyle: ThemeStyleType;
 
     // Yes. This is not static because it is calculated once we got some meta from style context.
     private defaultProps: StyledComponentProps;
@@ -159,13 +178,19 @@ export const styled = <P extends object>(Component: React.ComponentType<P>): Sty
       this.service = new StyleConsumerService(Component.styledComponentName, context);
       this.defaultProps = this.service.createDefaultProps();
 
-      this.init = true;
+      this.initStyle = context.style;
     };
 
-    private onDispatch = (interaction: Interaction[]) => {
-      this.setState({ interaction });
+    private onInteractionUpdate = (reducer: InteractionReducer<string>) => {
+      this.setState((state: State): Pick<State, 'interaction'> | null => {
+        const interaction: string[] = reducer(state.interaction);
+
+        return interaction !== state.interaction ? { interaction } : null;
+      });
     };
 
+    private dispatch: InteractionDispatch<string> = createInteractionDispatch(this.onInteractionUpdate);
+
     private withStyledProps = (source: P, context: ContextProps): WrappedProps => {
       const { interaction } = this.state;
 
@@ -175,31 +200,54 @@ export const styled = <P extends object>(Component: React.ComponentType<P>): Sty
     };
 
     private renderWrappedElement = (context: ContextProps): WrappedElement => {
-      if (!this.init) {
+      if (this.initStyle !== context.style) {
         this.onInit(context);
       }
 
       const { forwardedRef, ...restProps } = this.props;
       const props: P & StyledComponentProps = this.withStyledProps(restProps as P, context);
+      const transitions: StyleTransitions = this.service.getTransitions();
 
-      return (
+      const renderComponent = (themedStyle: StyleType): WrappedElement => (
         <Component
           {...props}
+          themedStyle={themedStyle}
           ref={forwardedRef}
-          dispatch={this.onDispatch}
+          dispatch={this.dispatch}
         />
       );
+
+      return (
+        <StyleTransition
+          style={props.themedStyle}
+          theme={context.theme}
+          transitions={transitions}>
+          {renderComponent}
+        </StyleTransition>
+      );
     };
 
     public render(): React.ReactNode {
       const StyledElement = this.renderWrappedElement;
 
       return (
-        <MappingContext.Consumer>{(styles: ThemeStyleType): WrappedElement => (
-          <ThemeContext.Consumer>{(theme: ThemeType): WrappedElement => (
-            <StyledElement style={styles} theme={theme}/>
-          )}</ThemeContext.Consumer>
-        )}</MappingContext.Consumer>
+        <DiagnosticsContext.Consumer>{(diagnostics: DiagnosticsService): WrappedElement => (
+          <BreakpointContext.Consumer>{(breakpoints: string[]): WrappedElement => (
+            <DensityContext.Consumer>{(density: Density): WrappedElement => (
+              <MappingContext.Consumer>{(styles: ThemeStyleType): WrappedElement => (
+                <ThemeContext.Consumer>{(theme: ThemeType): WrappedElement => (
+                  <StyledElement
+                    style={styles}
+                    theme={theme}
+                    diagnostics={diagnostics}
+                    breakpoints={breakpoints}
+                    density={density}
+                  />
+                )}</ThemeContext.Consumer>
+              )}</MappingContext.Consumer>
+            )}</DensityContext.Consumer>
+          )}</BreakpointContext.Consumer>
+        )}</DiagnosticsContext.Consumer>
       );
     }
   }
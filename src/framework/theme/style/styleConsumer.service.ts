@@ -1,17 +1,49 @@
+import { Platform } from 'react-native';
 import {
   ControlMetaType,
   ControlThemedStyleType,
   ThemedStyleType,
-  ThemeStyleType,
 } from '@eva-design/dss';
 import {
   ContextProps,
   StyledComponentProps,
 } from './styleConsumer.component';
-import { createThemedStyle } from './style.service';
-import { Interaction } from './type';
+import {
+  createThemedStyle,
+  resolveConditionalParameters,
+} from './style.service';
+import {
+  getRegisteredInteractions,
+  isRegisteredInteraction,
+} from './interaction.service';
+import {
+  StyleTransitions,
+  StyleType,
+} from './type';
+import { ThemeType } from '../theme/type';
+import {
+  evaluateThemeExpression,
+  isCacheableTheme,
+} from '../theme/theme.service';
+import {
+  ColorExpressionResult,
+  isColorExpression,
+} from '../theme/colorExpression.service';
+import { applyDensity } from '../density/density.service';
+import { Density } from '../density/type';
+import {
+  DiagnosticsService,
+  defaultDiagnostics,
+  findSuggestion,
+} from '../diagnostics/diagnostics.service';
+import {
+  StyleIssue,
+  StyleIssueType,
+} from '../diagnostics/type';
 
 const SEPARATOR_MAPPING_ENTRY: string = '.';
+const SEPARATOR_CONDITIONAL_QUERY: string = '@';
+const DOC_ROOT: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
 
 interface StyleInfo {
   appearance: string;
@@ -19,6 +51,32 @@ interface StyleInfo {
   states: string[];
 }
 
+/**
+ * Themed style along with issues found while creating it,
+ * so that they are reported to each of consumers, even once style is resolved from cache.
+ */
+interface ThemedStyleEntry {
+  style: StyleType;
+  issues: StyleIssue[];
+}
+
+/**
+ * Resolved styles of a single component mapping.
+ *
+ * `index` maps order-independent style queries to generated mapping keys.
+ * `themedStyles` holds themed styles created for each theme, keyed by style query.
+ */
+interface ComponentStyleCache {
+  index: Map<string, string>;
+  themedStyles: WeakMap<ThemeType, Map<string, ThemedStyleEntry>>;
+}
+
+/**
+ * Shared across all styled components, so that identical components receive the same `themedStyle` object.
+ * Keyed by processed component mapping, so it is invalidated once mapping changes.
+ */
+const styleCache: WeakMap<ControlThemedStyleType, ComponentStyleCache> = new WeakMap();
+
 export class StyleConsumerService {
 
   private readonly name: string;
@@ -32,17 +90,21 @@ export class StyleConsumerService {
     });
 
     if (!this.meta) {
-      const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
-
       const message: string = [
         `\n${this.name}: unsupported configuration.`,
         'Using UI Kitten components is only possible with configuring ApplicationProvider.',
-        `📖 Documentation: ${docRoot}/guides/install-ui-kitten#configure-application-root`,
+        `📖 Documentation: ${DOC_ROOT}/guides/install-ui-kitten#configure-application-root`,
         '\nIn case you have all in place, there might be an incorrect usage of a "styled" function.',
-        `📖 Documentation: ${docRoot}/design-system/custom-component-mapping`,
+        `📖 Documentation: ${DOC_ROOT}/design-system/custom-component-mapping`,
       ].join('\n');
 
-      console.error(message);
+      this.report(context, {
+        type: StyleIssueType.UNKNOWN_COMPONENT,
+        component: this.name,
+        options: Object.keys(context.style),
+        suggestion: findSuggestion(this.name, Object.keys(context.style)),
+        message,
+      });
     }
   }
 
@@ -54,75 +116,306 @@ export class StyleConsumerService {
     return { appearance, ...variants, ...states };
   }
 
-  public withStyledProps<P extends object>(source: P,
-                                           context: ContextProps,
-                                           interaction: Interaction[]): P & StyledComponentProps {
+  public getTransitions(): StyleTransitions {
+    const { transitions } = this.meta as ControlMetaType & { transitions?: StyleTransitions };
 
-    const styleInfo: StyleInfo = this.getStyleInfo(source, interaction);
+    return transitions || {};
+  }
 
-    const generatedMapping: ThemedStyleType = this.getGeneratedStyleMapping(context.style, styleInfo);
+  public withStyledProps<P extends object>(source: P,
+                                           context: ContextProps,
+                                           interaction: string[]): P & StyledComponentProps {
 
-    if (!generatedMapping) {
-      const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
+    const styleInfo: StyleInfo = this.getStyleInfo(source, this.withSupportedInteractions(interaction, context));
 
-      const message: string = [
-        `${this.name}: unsupported configuration.`,
-        `Check one of the following prop values ${JSON.stringify(styleInfo, null, 2)}`,
-        `📖 Documentation: ${docRoot}/components/${this.name.toLowerCase()}/api`,
-      ].join('\n');
+    const themedStyle: ThemedStyleEntry = this.getThemedStyle(context, styleInfo);
 
-      console.warn(message);
+    if (!themedStyle) {
+      this.findConfigurationIssues(source, styleInfo).forEach((issue: StyleIssue) => {
+        this.report(context, issue);
+      });
 
-      return this.withStyledProps({ ...source, ...this.createDefaultProps() }, context, interaction);
+      // Interactions are dropped as well, so that default configuration is always resolved
+      return this.withStyledProps({ ...source, ...this.createDefaultProps() }, context, []);
     }
 
-    const mapping = this.withValidParameters(generatedMapping);
+    themedStyle.issues.forEach((issue: StyleIssue) => {
+      this.report(context, issue);
+    });
 
     return {
       ...source,
       theme: context.theme,
-      themedStyle: createThemedStyle(mapping, context.theme),
+      themedStyle: themedStyle.style,
     };
   }
 
-  private getGeneratedStyleMapping<P extends StyledComponentProps>(style: ThemeStyleType,
-                                                                   info: StyleInfo): ThemedStyleType {
+  private getThemedStyle(context: ContextProps, info: StyleInfo): ThemedStyleEntry | undefined {
+    return this.safe(context.style[this.name], (componentStyles: ControlThemedStyleType): ThemedStyleEntry => {
+      const cache: ComponentStyleCache = this.getComponentStyleCache(componentStyles);
+
+      const query: string = this.createStyleQuery(info);
+      const generatedQuery: string = cache.index.get(query);
 
-    return this.safe(style[this.name], (componentStyles: ControlThemedStyleType): ThemedStyleType => {
-      const styleKeys: string[] = Object.keys(componentStyles.styles);
-      const query: string = this.findGeneratedQuery(info, styleKeys);
+      if (!generatedQuery) {
+        return undefined;
+      }
+
+      if (!isCacheableTheme(context.theme)) {
+        return this.createThemedStyle(componentStyles.styles[generatedQuery], context);
+      }
+
+      const themedStyles: Map<string, ThemedStyleEntry> = cache.themedStyles.get(context.theme) || new Map();
 
-      return componentStyles.styles[query];
+      // Conditional parameters and density are applied along with the style,
+      // so that it should be cached per density and breakpoints
+      const conditionalQuery: string = [
+        query,
+        this.getDensity(context),
+        ...this.getBreakpoints(context),
+      ].join(SEPARATOR_CONDITIONAL_QUERY);
+
+      if (!themedStyles.has(conditionalQuery)) {
+        const themedStyle: ThemedStyleEntry = this.createThemedStyle(componentStyles.styles[generatedQuery], context);
+        cache.themedStyles.set(context.theme, themedStyles.set(conditionalQuery, themedStyle));
+      }
+
+      return themedStyles.get(conditionalQuery);
     });
   }
 
-  private withValidParameters(mapping: ThemedStyleType): ThemedStyleType {
-    const invalidParameters: string[] = [];
+  private createThemedStyle(generatedMapping: ThemedStyleType, context: ContextProps): ThemedStyleEntry {
+    const issues: StyleIssue[] = [];
+
+    const resolvedMapping: ThemedStyleType = resolveConditionalParameters(
+      generatedMapping,
+      Platform.OS,
+      this.getBreakpoints(context),
+    );
+
+    const mapping: ThemedStyleType = this.withValidExpressions(
+      this.withValidParameters(resolvedMapping, issues),
+      context,
+      issues,
+    );
+
+    return {
+      style: applyDensity(createThemedStyle(mapping, context.theme), this.getDensity(context)),
+      issues,
+    };
+  }
+
+  private getDensity(context: ContextProps): Density {
+    return context.density || 'comfortable';
+  }
+
+  private getBreakpoints(context: ContextProps): string[] {
+    return context.breakpoints || [];
+  }
+
+  private getComponentStyleCache(componentStyles: ControlThemedStyleType): ComponentStyleCache {
+    if (!styleCache.has(componentStyles)) {
+      styleCache.set(componentStyles, {
+        index: this.createStyleIndex(Object.keys(componentStyles.styles)),
+        themedStyles: new WeakMap(),
+      });
+    }
+
+    return styleCache.get(componentStyles);
+  }
+
+  /**
+   * @return (ThemedStyleType) - copy of mapping without parameters missing in component meta.
+   * Mapping itself is shared between components, so that it is not modified.
+   */
+  private withValidParameters(mapping: ThemedStyleType, issues: StyleIssue[]): ThemedStyleType {
+    const parameters: string[] = Object.keys(this.meta.parameters);
 
-    Object.keys(mapping).forEach((key: string) => {
-      if (!Object.keys(this.meta.parameters).includes(key)) {
-        invalidParameters.push(key);
-        delete mapping[key];
+    return Object.keys(mapping).reduce((acc: ThemedStyleType, key: string): ThemedStyleType => {
+      if (parameters.includes(key)) {
+        return { ...acc, [key]: mapping[key] };
       }
-    });
 
-    if (invalidParameters.length !== 0) {
-      const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
+      const suggestion: string = findSuggestion(key, parameters);
+
+      const message: string = [
+        `${this.name}: unsupported configuration.`,
+        `Unable to apply ${key}`,
+        ...this.createSuggestionMessage(suggestion),
+        'There might be an incorrect usage of mapping',
+        `📖 Documentation: ${DOC_ROOT}/design-system/custom-component-mapping`,
+      ].join('\n');
+
+      issues.push({
+        type: StyleIssueType.INVALID_PARAMETER,
+        component: this.name,
+        prop: key,
+        options: parameters,
+        suggestion,
+        message,
+      });
+
+      return acc;
+    }, {});
+  }
+
+  /**
+   * @return (ThemedStyleType) - copy of mapping without color expressions unable to be evaluated with context theme
+   */
+  private withValidExpressions(mapping: ThemedStyleType,
+                               context: ContextProps,
+                               issues: StyleIssue[]): ThemedStyleType {
+
+    return Object.keys(mapping).reduce((acc: ThemedStyleType, key: string): ThemedStyleType => {
+      const value: any = mapping[key];
+
+      if (!isColorExpression(value)) {
+        return { ...acc, [key]: value };
+      }
+
+      const { error }: ColorExpressionResult = evaluateThemeExpression(value, context.theme);
+
+      if (!error) {
+        return { ...acc, [key]: value };
+      }
 
       const message: string = [
         `${this.name}: unsupported configuration.`,
-        `Unable to apply ${invalidParameters}`,
+        `Unable to apply ${key}: ${value} is invalid expression. ${error}`,
         'There might be an incorrect usage of mapping',
-        `📖 Documentation: ${docRoot}/design-system/custom-component-mapping`,
+        `📖 Documentation: ${DOC_ROOT}/design-system/custom-theme`,
       ].join('\n');
 
-      console.warn(message);
+      issues.push({
+        type: StyleIssueType.INVALID_EXPRESSION,
+        component: this.name,
+        prop: key,
+        value,
+        options: [],
+        message,
+      });
+
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Finds props causing unsupported configuration.
+   * Falls back to a single issue describing whole configuration if each of props is valid on its own.
+   *
+   * @param props - component props
+   * @param info (StyleInfo) - component style info
+   *
+   * @return (StyleIssue[]) - issues found
+   */
+  private findConfigurationIssues(props: StyledComponentProps, info: StyleInfo): StyleIssue[] {
+    const appearances: string[] = Object.keys(this.meta.appearances);
+
+    const appearanceIssues: StyleIssue[] = appearances.includes(props.appearance) ? [] : [
+      this.createPropIssue(StyleIssueType.INVALID_APPEARANCE, 'appearance', props.appearance, appearances),
+    ];
+
+    const variantIssues: StyleIssue[] = Object.keys(this.meta.variantGroups)
+      .filter((group: string): boolean => {
+        return props[group] !== undefined && !this.meta.variantGroups[group][props[group]];
+      })
+      .map((group: string): StyleIssue => {
+        const variants: string[] = Object.keys(this.meta.variantGroups[group]);
+
+        return this.createPropIssue(StyleIssueType.INVALID_VARIANT, group, props[group], variants);
+      });
+
+    const issues: StyleIssue[] = [...appearanceIssues, ...variantIssues];
+
+    if (issues.length !== 0) {
+      return issues;
     }
 
-    return mapping;
+    const message: string = [
+      `${this.name}: unsupported configuration.`,
+      `Check one of the following prop values ${JSON.stringify(info, null, 2)}`,
+      `📖 Documentation: ${DOC_ROOT}/components/${this.name.toLowerCase()}/api`,
+    ].join('\n');
+
+    return [{
+      type: StyleIssueType.UNSUPPORTED_CONFIGURATION,
+      component: this.name,
+      value: info,
+      options: [],
+      message,
+    }];
+  }
+
+  private createPropIssue(type: StyleIssueType, prop: string, value: any, options: string[]): StyleIssue {
+    const suggestion: string = findSuggestion(value, options);
+
+    const message: string = [
+      `${this.name}: unsupported configuration.`,
+      `"${value}" is not a valid "${prop}". Valid options are: ${options.join(', ')}.`,
+      ...this.createSuggestionMessage(suggestion),
+      `📖 Documentation: ${DOC_ROOT}/components/${this.name.toLowerCase()}/api`,
+    ].join('\n');
+
+    return {
+      type,
+      component: this.name,
+      prop,
+      value,
+      options,
+      suggestion,
+      message,
+    };
+  }
+
+  private createSuggestionMessage(suggestion: string | undefined): string[] {
+    return suggestion ? [`Did you mean "${suggestion}"?`] : [];
+  }
+
+  private report(context: ContextProps, issue: StyleIssue): void {
+    const diagnostics: DiagnosticsService = context.diagnostics || defaultDiagnostics;
+
+    diagnostics.report(issue);
+  }
+
+  private withSupportedInteractions(interaction: string[], context: ContextProps): string[] {
+    const states: string[] = Object.keys(this.meta.states);
+
+    return interaction.filter((value: string): boolean => {
+      const isRegistered: boolean = isRegisteredInteraction(value);
+
+      if (isRegistered && states.includes(value)) {
+        return true;
+      }
+
+      const options: string[] = isRegistered ? states.filter(isRegisteredInteraction) : getRegisteredInteractions();
+      const suggestion: string = findSuggestion(value, options);
+
+      const reason: string = isRegistered
+        ? `It is not declared in states of ${this.name} mapping.`
+        : 'It should be registered with `registerInteractions` function.';
+
+      const message: string = [
+        `${this.name}: unsupported configuration.`,
+        `Unable to dispatch "${value}". ${reason}`,
+        ...this.createSuggestionMessage(suggestion),
+        `📖 Documentation: ${DOC_ROOT}/design-system/custom-component-mapping`,
+      ].join('\n');
+
+      this.report(context, {
+        type: StyleIssueType.UNKNOWN_INTERACTION,
+        component: this.name,
+        prop: 'dispatch',
+        value,
+        options,
+        suggestion,
+        message,
+      });
+
+      return false;
+    });
   }
 
-  private getStyleInfo<P extends StyledComponentProps>(props: P, interaction: Interaction[]): StyleInfo {
+  private getStyleInfo<P extends StyledComponentProps>(props: P, interaction: string[]): StyleInfo {
     const variantProps: Partial<P> = this.getDerivedVariants(this.meta, props);
     const stateProps: Partial<P> = this.getDerivedStates(this.meta, props);
 
@@ -200,48 +493,49 @@ export class StyleConsumerService {
   }
 
   /**
-   * Finds identical keys across `source` keys array
+   * Creates order-independent style query for component style info
    *
    * Example:
    *
-   * source = ['default.error.small.checked', ...]
    * info = { appearance: 'default', variants: ['small', 'error'], states: ['checked'] }
    *
-   * will return ['default', 'error', 'small', 'checked']
+   * will return 'checked.default.error.small'
    *
    * @param info (StyleInfo) - component style info
-   * @param source (string[]) - array of style keys
    *
-   * @return (string | undefined) - key identical to some of `source` keys if presents
+   * @return (string) - style query
    */
-  private findGeneratedQuery(info: StyleInfo, source: string[]): string | undefined {
-    const query: string[] = [
+  private createStyleQuery(info: StyleInfo): string {
+    return this.toStyleQuery([
       info.appearance,
       ...info.variants,
       ...info.states,
-    ];
-
-    const matches: string[] = source.filter((key: string): boolean => {
-      const keyQuery: string[] = key.split(SEPARATOR_MAPPING_ENTRY);
-
-      return this.compareArrays(query, keyQuery);
-    });
-
-    return matches[0];
+    ]);
   }
 
   /**
-   * @param lhs (string[]) - comparable array
-   * @param rhs (string[]) - comparing array
+   * Maps order-independent style queries to `source` keys
+   *
+   * Example:
+   *
+   * source = ['default.error.small.checked', ...]
+   *
+   * will return Map { 'checked.default.error.small' => 'default.error.small.checked', ... }
+   *
+   * @param source (string[]) - array of style keys
    *
-   * @return true if all of lhs keys are included in rhs
+   * @return (Map<string, string>) - style queries mapped to `source` keys
    */
-  private compareArrays(lhs: string[], rhs: string[]): boolean {
-    if (lhs.length !== rhs.length) {
-      return false;
-    }
+  private createStyleIndex(source: string[]): Map<string, string> {
+    return source.reduce((acc: Map<string, string>, key: string): Map<string, string> => {
+      const query: string = this.toStyleQuery(key.split(SEPARATOR_MAPPING_ENTRY));
+
+      return acc.has(query) ? acc : acc.set(query, key);
+    }, new Map());
+  }
 
-    return lhs.reduce((acc: boolean, current: string): boolean => acc && rhs.includes(current), true);
+  private toStyleQuery(entries: string[]): string {
+    return [...entries].sort().join(SEPARATOR_MAPPING_ENTRY);
   }
 
   /**
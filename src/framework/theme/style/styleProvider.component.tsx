@@ -5,28 +5,49 @@
  */
 
 import React from 'react';
+import { SchemaType } from '@eva-design/dss';
 import {
   MappingProvider,
   MappingProviderProps,
 } from '../mapping/mappingProvider.component';
+import { SchemaContext } from '../mapping/schemaContext';
 import {
   ThemeProvider,
   ThemeProviderProps,
 } from '../theme/themeProvider.component';
+import { BreakpointProvider } from '../breakpoint/breakpointProvider.component';
+import { Breakpoints } from '../breakpoint/type';
+import { DiagnosticsContext } from '../diagnostics/diagnosticsContext';
+import {
+  DiagnosticsService,
+  defaultDiagnostics,
+} from '../diagnostics/diagnostics.service';
+
+interface ComponentProps {
+  mapping?: SchemaType;
+  diagnostics?: DiagnosticsService;
+  breakpoints?: Breakpoints;
+}
 
-export type StyleProviderProps = MappingProviderProps & ThemeProviderProps;
+export type StyleProviderProps = ComponentProps & MappingProviderProps & ThemeProviderProps;
 
 export class StyleProvider extends React.PureComponent<StyleProviderProps> {
 
   public render(): React.ReactNode {
-    const { styles, theme, children } = this.props;
+    const { mapping, styles, diagnostics, breakpoints, children, ...themeProps } = this.props;
 
     return (
-      <MappingProvider styles={styles}>
-        <ThemeProvider theme={theme}>
-          {children}
-        </ThemeProvider>
-      </MappingProvider>
+      <DiagnosticsContext.Provider value={diagnostics || defaultDiagnostics}>
+        <SchemaContext.Provider value={mapping}>
+          <MappingProvider styles={styles}>
+            <BreakpointProvider breakpoints={breakpoints}>
+              <ThemeProvider {...themeProps}>
+                {children}
+              </ThemeProvider>
+            </BreakpointProvider>
+          </MappingProvider>
+        </SchemaContext.Provider>
+      </DiagnosticsContext.Provider>
     );
   }
 }
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import { useStyleTransition } from './styleTransition.hook';
+import {
+  StyleTransitions,
+  StyleType,
+} from './type';
+import { ThemeType } from '../theme/type';
+
+export interface StyleTransitionProps {
+  style: StyleType;
+  theme: ThemeType;
+  transitions: StyleTransitions;
+  children: (style: StyleType) => React.ReactElement;
+}
+
+/**
+ * Renders children with style transitioned from the previous one, once `style` is changed.
+ * Transitioned parameters are animated values, so children are re-rendered once per style change.
+ * Theme change applies style immediately, unless ThemeProvider declares `transition`.
+ */
+export const StyleTransition = (props: StyleTransitionProps): React.ReactElement => {
+  const { style, theme, transitions, children } = props;
+
+  return children(useStyleTransition(style, theme, transitions));
+};
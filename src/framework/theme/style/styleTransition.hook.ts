@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import {
+  Animated,
+  Easing,
+} from 'react-native';
+import {
+  createAnimatedStyle,
+  createStyleInterpolation,
+  getTransitionDuration,
+  isStyleEqual,
+} from './styleTransition.service';
+import {
+  StyleTransitions,
+  StyleType,
+} from './type';
+import { ThemeType } from '../theme/type';
+import { useThemeTransition } from '../theme/themeTransition.hook';
+import { createThemedStyleInterpolation } from '../theme/themeTransition.service';
+
+interface Transition {
+  from: StyleType;
+  to: StyleType;
+  theme: ThemeType;
+  transitions: StyleTransitions;
+  style: StyleType;
+}
+
+/**
+ * Hook which is used to animate style parameters declared in `transitions` once `style` is changed.
+ *
+ * Returns style which transitioned parameters are animated values driven by a single `Animated.Value`,
+ * so that component is re-rendered once per style change rather than on each animation frame.
+ * Theme change applies style immediately, unless ThemeProvider declares `transition`.
+ *
+ * @param {StyleType} style - Determines style to transition to.
+ *
+ * @param {ThemeType} theme - Determines theme style is resolved with.
+ *
+ * @param {StyleTransitions} transitions - Determines transition durations of parameters.
+ * Style is returned as is when there are no transitions.
+ *
+ * @return {StyleType} - Style to be applied to `Animated` components.
+ */
+export const useStyleTransition = (style: StyleType,
+                                   theme: ThemeType,
+                                   transitions: StyleTransitions): StyleType => {
+
+  const targetStyle: StyleType = useThemeTransition(style, theme, createThemedStyleInterpolation);
+  const isEnabled: boolean = Object.keys(transitions).length !== 0;
+
+  const elapsed: Animated.Value = React.useMemo((): Animated.Value => {
+    return new Animated.Value(0);
+  }, []);
+
+  const createTransition = (from: StyleType): Transition => {
+    const animatedStyle: StyleType = createAnimatedStyle(elapsed, from, targetStyle, transitions);
+
+    return { from, to: targetStyle, theme, transitions, style: animatedStyle };
+  };
+
+  const [transition, setTransition] = React.useState<Transition>((): Transition => {
+    return createTransition(targetStyle);
+  });
+
+  React.useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
+
+    if (transition.theme !== theme || transition.transitions !== transitions) {
+      elapsed.stopAnimation();
+      elapsed.setValue(0);
+      setTransition(createTransition(targetStyle));
+      return;
+    }
+
+    if (isStyleEqual(transition.to, targetStyle)) {
+      return;
+    }
+
+    // Start from the values currently rendered, so that interrupted transition continues smoothly
+    let renderedStyle: StyleType = transition.to;
+
+    elapsed.stopAnimation((value: number): void => {
+      renderedStyle = createStyleInterpolation(transition.from, transition.to, transitions)(value);
+    });
+
+    elapsed.setValue(0);
+    setTransition(createTransition(renderedStyle));
+
+    Animated.timing(elapsed, {
+      toValue: getTransitionDuration(transitions),
+      duration: getTransitionDuration(transitions),
+      easing: Easing.linear,
+    }).start();
+  });
+
+  React.useEffect(() => {
+    return (): void => {
+      elapsed.stopAnimation();
+    };
+  }, []);
+
+  return isEnabled ? transition.style : targetStyle;
+};
@@ -0,0 +1,146 @@
+import { Animated } from 'react-native';
+import {
+  mixColors,
+  parseColor,
+  RGBAColor,
+  toColorString,
+} from '../theme/color.service';
+import {
+  StyleTransitions,
+  StyleType,
+} from './type';
+
+interface ParameterTransition {
+  parameter: string;
+  duration: number;
+  range: [any, any];
+  interpolate: (progress: number) => any;
+}
+
+export type StyleInterpolation = (elapsed: number) => StyleType;
+
+/**
+ * Creates a function which interpolates parameters declared in `transitions` between two styles.
+ *
+ * Only colors and opacity values are interpolated.
+ * The rest of parameters are taken from `to` style.
+ *
+ * @param from: StyleType - style to start transition from
+ * @param to: StyleType - style to finish transition with
+ * @param transitions: StyleTransitions - transition durations of parameters
+ *
+ * @return StyleInterpolation. Function which takes time elapsed from transition start (in ms) and returns style
+ */
+export function createStyleInterpolation(from: StyleType,
+                                         to: StyleType,
+                                         transitions: StyleTransitions): StyleInterpolation {
+
+  const parameterTransitions: ParameterTransition[] = createParameterTransitions(from, to, transitions);
+
+  return (elapsed: number): StyleType => {
+    return parameterTransitions.reduce((acc: StyleType, transition: ParameterTransition): StyleType => {
+      const progress: number = transition.duration > 0 ? Math.min(elapsed / transition.duration, 1) : 1;
+
+      return { ...acc, [transition.parameter]: transition.interpolate(progress) };
+    }, { ...to });
+  };
+}
+
+/**
+ * Creates a style which parameters declared in `transitions` are animated values,
+ * so that transition runs without re-rendering the component.
+ *
+ * Only colors and opacity values are interpolated.
+ * The rest of parameters are taken from `to` style.
+ *
+ * @param elapsed: Animated.Value - time elapsed from transition start (in ms)
+ * @param from: StyleType - style to start transition from
+ * @param to: StyleType - style to finish transition with
+ * @param transitions: StyleTransitions - transition durations of parameters
+ *
+ * @return StyleType. Style to be applied to `Animated` components
+ */
+export function createAnimatedStyle(elapsed: Animated.Value,
+                                    from: StyleType,
+                                    to: StyleType,
+                                    transitions: StyleTransitions): StyleType {
+
+  const parameterTransitions: ParameterTransition[] = createParameterTransitions(from, to, transitions);
+
+  return parameterTransitions.reduce((acc: StyleType, transition: ParameterTransition): StyleType => {
+    const value: Animated.AnimatedInterpolation = elapsed.interpolate({
+      inputRange: [0, Math.max(transition.duration, 1)],
+      outputRange: transition.range,
+      extrapolate: 'clamp',
+    });
+
+    return { ...acc, [transition.parameter]: value };
+  }, { ...to });
+}
+
+/**
+ * @return (number) - duration of the longest parameter transition
+ */
+export function getTransitionDuration(transitions: StyleTransitions): number {
+  return Object.keys(transitions).reduce((acc: number, parameter: string): number => {
+    return Math.max(acc, transitions[parameter]);
+  }, 0);
+}
+
+export function isStyleEqual(lhs: StyleType, rhs: StyleType): boolean {
+  if (lhs === rhs) {
+    return true;
+  }
+
+  if (!lhs || !rhs) {
+    return false;
+  }
+
+  const lhsKeys: string[] = Object.keys(lhs);
+
+  return lhsKeys.length === Object.keys(rhs).length && lhsKeys.every((key: string): boolean => {
+    return lhs[key] === rhs[key];
+  });
+}
+
+function createParameterTransitions(from: StyleType,
+                                    to: StyleType,
+                                    transitions: StyleTransitions): ParameterTransition[] {
+
+  return Object.keys(transitions)
+    .map((parameter: string): ParameterTransition => {
+      return createParameterTransition(parameter, from[parameter], to[parameter], transitions[parameter]);
+    })
+    .filter(Boolean);
+}
+
+function createParameterTransition(parameter: string,
+                                   from: any,
+                                   to: any,
+                                   duration: number): ParameterTransition | undefined {
+
+  const fromColor: RGBAColor | undefined = parseColor(from);
+  const toColor: RGBAColor | undefined = parseColor(to);
+
+  if (fromColor && toColor) {
+    return {
+      parameter,
+      duration,
+      range: [toColorString(fromColor), toColorString(toColor)],
+      interpolate: (progress: number): string => toColorString(mixColors(fromColor, toColor, progress)),
+    };
+  }
+
+  const isOpacity: boolean = /opacity$/i.test(parameter);
+
+  if (isOpacity && typeof from === 'number' && typeof to === 'number') {
+    return {
+      parameter,
+      duration,
+      range: [from, to],
+      interpolate: (progress: number): number => from + (to - from) * progress,
+    };
+  }
+
+  return undefined;
+}
@@ -2,12 +2,28 @@ export interface StyleType {
   [key: string]: any;
 }
 
+/**
+ * Transition durations (in ms) of mapping parameters, declared within `meta.transitions` of component mapping.
+ */
+export interface StyleTransitions {
+  [parameter: string]: number;
+}
+
 export enum Interaction {
   ACTIVE = 'active',
   FOCUSED = 'focused',
   INDETERMINATE = 'indeterminate',
 }
 
+export type InteractionReducer<I extends string = Interaction> = (interaction: I[]) => I[];
+
+export interface InteractionDispatch<I extends string = Interaction> {
+  (interaction: I[]): void;
+
+  add: (interaction: I) => void;
+  remove: (interaction: I) => void;
+}
+
 export enum State {
   CHECKED = 'checked',
   SELECTED = 'selected',
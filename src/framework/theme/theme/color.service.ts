@@ -0,0 +1,136 @@
+export interface RGBAColor {
+  red: number;
+  green: number;
+  blue: number;
+  alpha: number;
+}
+
+const HEX_PATTERN: RegExp = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_PATTERN: RegExp = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i;
+
+export const WHITE: RGBAColor = { red: 255, green: 255, blue: 255, alpha: 1 };
+export const BLACK: RGBAColor = { red: 0, green: 0, blue: 0, alpha: 1 };
+
+/**
+ * Parses hex (`#RGB`, `#RGBA`, `#RRGGBB`, `#RRGGBBAA`) and rgb (`rgb(r, g, b)`, `rgba(r, g, b, a)`) colors
+ *
+ * @param value (string) - color string
+ *
+ * @return (RGBAColor | undefined) - parsed color if `value` is supported color string
+ */
+export function parseColor(value: string): RGBAColor | undefined {
+  if (HEX_PATTERN.test(value)) {
+    return parseHexColor(value.substring(1));
+  }
+
+  const rgbMatch: RegExpMatchArray | null = `${value}`.match(RGB_PATTERN);
+
+  if (rgbMatch) {
+    const [red, green, blue] = rgbMatch.slice(1, 4).map(Number);
+    const alpha: number = rgbMatch[4] !== undefined ? Number(rgbMatch[4]) : 1;
+
+    return { red, green, blue, alpha };
+  }
+
+  return undefined;
+}
+
+/**
+ * Mixes colors with a given weight
+ *
+ * @param lhs (RGBAColor) - first color
+ * @param rhs (RGBAColor) - second color
+ * @param weight (number) - weight of a second color. 0 returns `lhs`, 1 returns `rhs`
+ *
+ * @return (RGBAColor) - mixed color
+ */
+export function mixColors(lhs: RGBAColor, rhs: RGBAColor, weight: number): RGBAColor {
+  const mix = (lhsValue: number, rhsValue: number): number => lhsValue + (rhsValue - lhsValue) * weight;
+
+  return {
+    red: Math.round(mix(lhs.red, rhs.red)),
+    green: Math.round(mix(lhs.green, rhs.green)),
+    blue: Math.round(mix(lhs.blue, rhs.blue)),
+    alpha: mix(lhs.alpha, rhs.alpha),
+  };
+}
+
+/**
+ * @return (string) - `#RRGGBB` for opaque colors, `rgba(r, g, b, a)` otherwise
+ */
+export function toColorString(color: RGBAColor): string {
+  if (color.alpha < 1) {
+    return `rgba(${color.red}, ${color.green}, ${color.blue}, ${roundAlpha(color.alpha)})`;
+  }
+
+  const hex: string = [color.red, color.green, color.blue].map((value: number): string => {
+    return value.toString(16).padStart(2, '0');
+  }).join('');
+
+  return `#${hex.toUpperCase()}`;
+}
+
+function parseHexColor(hex: string): RGBAColor {
+  const isShort: boolean = hex.length <= 4;
+  const channels: string[] = isShort ? hex.split('').map((c: string): string => c + c) : hex.match(/.{2}/g);
+
+  const [red, green, blue, alpha = 255] = channels.map((channel: string): number => parseInt(channel, 16));
+
+  return { red, green, blue, alpha: roundAlpha(alpha / 255) };
+}
+
+function roundAlpha(alpha: number): number {
+  return Math.round(alpha * 100) / 100;
+}
+
+/**
+ * Changes lightness of a color in HSL color space, keeping its hue and saturation
+ *
+ * @param color (RGBAColor) - color to change
+ * @param amount (number) - lightness to add, from -1 to 1. Negative values make color darker
+ *
+ * @return (RGBAColor) - changed color
+ */
+export function adjustLightness(color: RGBAColor, amount: number): RGBAColor {
+  const [hue, saturation, lightness] = toHsl(color);
+  const nextLightness: number = Math.min(1, Math.max(0, lightness + amount));
+
+  return { ...fromHsl(hue, saturation, nextLightness), alpha: color.alpha };
+}
+
+function toHsl(color: RGBAColor): [number, number, number] {
+  const [red, green, blue] = [color.red, color.green, color.blue].map((value: number): number => value / 255);
+
+  const max: number = Math.max(red, green, blue);
+  const min: number = Math.min(red, green, blue);
+  const lightness: number = (max + min) / 2;
+  const delta: number = max - min;
+
+  if (delta === 0) {
+    return [0, 0, lightness];
+  }
+
+  const saturation: number = delta / (1 - Math.abs(2 * lightness - 1));
+
+  switch (max) {
+    case red:
+      return [((green - blue) / delta + (green < blue ? 6 : 0)) / 6, saturation, lightness];
+    case green:
+      return [((blue - red) / delta + 2) / 6, saturation, lightness];
+    default:
+      return [((red - green) / delta + 4) / 6, saturation, lightness];
+  }
+}
+
+function fromHsl(hue: number, saturation: number, lightness: number): RGBAColor {
+  const chroma: number = (1 - Math.abs(2 * lightness - 1)) * saturation;
+
+  const channel = (offset: number): number => {
+    const k: number = (offset + hue * 12) % 12;
+    const value: number = lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+
+    return Math.round(value * 255);
+  };
+
+  return { red: channel(0), green: channel(8), blue: channel(4), alpha: 1 };
+}
@@ -0,0 +1,162 @@
+import {
+  adjustLightness,
+  mixColors,
+  parseColor,
+  RGBAColor,
+  toColorString,
+} from './color.service';
+
+const SYMBOL_REFERENCE: string = '$';
+const SYMBOL_PERCENT: string = '%';
+
+const EXPRESSION_PATTERN: RegExp = /^([a-z]+)\((.*)\)$/i;
+// rgb and hsl colors look like expressions, but are values
+const COLOR_FUNCTION_PATTERN: RegExp = /^(rgb|hsl)a?\(/i;
+
+/**
+ * Resolves `$`-prefixed reference used as an expression argument
+ *
+ * @return any. Referenced value, or `undefined` if it can't be resolved
+ */
+export type ColorReferenceResolver = (reference: string) => any;
+
+export interface ColorExpressionResult {
+  value?: string;
+  error?: string;
+}
+
+type ColorFunction = (args: string[], resolve: ColorReferenceResolver) => RGBAColor;
+
+const COLOR_FUNCTIONS: { [name: string]: ColorFunction } = {
+  // alpha($color, 0.24) - sets opacity of a color
+  alpha: (args: string[], resolve: ColorReferenceResolver): RGBAColor => {
+    const [color, amount] = withArguments('alpha', args, 2);
+
+    return { ...toColor(color, resolve), alpha: toAmount(amount) };
+  },
+  // darken($color, 10%) - decreases lightness of a color
+  darken: (args: string[], resolve: ColorReferenceResolver): RGBAColor => {
+    const [color, amount] = withArguments('darken', args, 2);
+
+    return adjustLightness(toColor(color, resolve), -toAmount(amount));
+  },
+  // lighten($color, 10%) - increases lightness of a color
+  lighten: (args: string[], resolve: ColorReferenceResolver): RGBAColor => {
+    const [color, amount] = withArguments('lighten', args, 2);
+
+    return adjustLightness(toColor(color, resolve), toAmount(amount));
+  },
+  // mix($color-1, $color-2, 25%) - mixes colors, where amount is a weight of the first one. Default is 50%
+  mix: (args: string[], resolve: ColorReferenceResolver): RGBAColor => {
+    const [lhs, rhs, amount = '50%'] = withArguments('mix', args, 2, 3);
+
+    return mixColors(toColor(rhs, resolve), toColor(lhs, resolve), toAmount(amount));
+  },
+};
+
+/**
+ * @returns true if value is a color expression, like `alpha($color-primary-500, 0.24)`
+ */
+export function isColorExpression(value: any): boolean {
+  return typeof value === 'string' && EXPRESSION_PATTERN.test(value) && !COLOR_FUNCTION_PATTERN.test(value);
+}
+
+/**
+ * Evaluates color expression. Expressions may be nested, like `alpha(darken($color-basic-800, 10%), 0.5)`.
+ *
+ * Supported functions are `alpha`, `darken`, `lighten` and `mix`.
+ * Amounts can be numbers from 0 to 1, or percents, like `10%`.
+ *
+ * @param expression: string - expression to evaluate
+ * @param resolve: ColorReferenceResolver - function resolving references used as arguments
+ *
+ * @return ColorExpressionResult. Evaluated color string, or an error describing why expression is invalid
+ */
+export function evaluateColorExpression(expression: string,
+                                        resolve: ColorReferenceResolver): ColorExpressionResult {
+  try {
+    return { value: toColorString(evaluate(expression, resolve)) };
+  } catch (error) {
+    return { error: error.message };
+  }
+}
+
+function evaluate(expression: string, resolve: ColorReferenceResolver): RGBAColor {
+  const [, name, args] = expression.trim().match(EXPRESSION_PATTERN);
+  const colorFunction: ColorFunction | undefined = COLOR_FUNCTIONS.hasOwnProperty(name) && COLOR_FUNCTIONS[name];
+
+  if (!colorFunction) {
+    const functions: string = Object.keys(COLOR_FUNCTIONS).join(', ');
+
+    throw new Error(`"${name}" is not a color function. Available functions are: ${functions}`);
+  }
+
+  return colorFunction(splitArguments(args), resolve);
+}
+
+function toColor(argument: string, resolve: ColorReferenceResolver): RGBAColor {
+  if (isColorExpression(argument)) {
+    return evaluate(argument, resolve);
+  }
+
+  const value: any = argument.startsWith(SYMBOL_REFERENCE) ? resolve(argument) : argument;
+
+  if (value === undefined) {
+    throw new Error(`unable to resolve "${argument}"`);
+  }
+
+  const color: RGBAColor | undefined = isColorExpression(value) ? evaluate(value, resolve) : parseColor(value);
+
+  if (!color) {
+    throw new Error(`"${argument}" is expected to be a hex or rgb color, but resolved to ${JSON.stringify(value)}`);
+  }
+
+  return color;
+}
+
+function toAmount(argument: string): number {
+  const isPercent: boolean = argument.endsWith(SYMBOL_PERCENT);
+  const value: number = parseFloat(argument) / (isPercent ? 100 : 1);
+
+  if (isNaN(value) || value < 0 || value > 1) {
+    throw new Error(`"${argument}" is expected to be an amount from 0 to 1, or from 0% to 100%`);
+  }
+
+  return value;
+}
+
+function withArguments(name: string, args: string[], min: number, max: number = min): string[] {
+  if (args.length < min || args.length > max) {
+    const count: string = min === max ? `${min}` : `${min} to ${max}`;
+
+    throw new Error(`"${name}" expects ${count} arguments, but got ${args.length}`);
+  }
+
+  return args;
+}
+
+/**
+ * Splits expression arguments by commas, except ones of nested expressions
+ *
+ * Example:
+ *
+ * args = 'alpha($color-primary-500, 0.5), #000, 10%'
+ *
+ * will return ['alpha($color-primary-500, 0.5)', '#000', '10%']
+ */
+function splitArguments(args: string): string[] {
+  const result: string[] = [''];
+  let depth: number = 0;
+
+  args.split('').forEach((char: string) => {
+    if (char === ',' && depth === 0) {
+      result.push('');
+      return;
+    }
+
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    result[result.length - 1] += char;
+  });
+
+  return result.map((arg: string): string => arg.trim()).filter((arg: string): boolean => arg.length !== 0);
+}
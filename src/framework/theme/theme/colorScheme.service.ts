@@ -0,0 +1,47 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+// @ts-ignore: Appearance API is available since react-native 0.62
+import { Appearance } from 'react-native';
+import {
+  ColorScheme,
+  ColorSchemeSource,
+} from './type';
+
+const DEFAULT_COLOR_SCHEME: ColorScheme = 'light';
+
+interface AppearancePreferences {
+  colorScheme: ColorScheme | null | undefined;
+}
+
+/**
+ * Color scheme source backed by react-native `Appearance` API.
+ * Always provides `light` color scheme in case `Appearance` API is not available on the platform.
+ */
+export class SystemColorSchemeSource implements ColorSchemeSource {
+
+  public getColorScheme(): ColorScheme {
+    if (!Appearance) {
+      return DEFAULT_COLOR_SCHEME;
+    }
+
+    return Appearance.getColorScheme() || DEFAULT_COLOR_SCHEME;
+  }
+
+  public subscribe(listener: (colorScheme: ColorScheme) => void): () => void {
+    if (!Appearance) {
+      return () => null;
+    }
+
+    const onAppearanceChange = (preferences: AppearancePreferences): void => {
+      listener(preferences.colorScheme || DEFAULT_COLOR_SCHEME);
+    };
+
+    Appearance.addChangeListener(onAppearanceChange);
+
+    return () => Appearance.removeChangeListener(onAppearanceChange);
+  }
+}
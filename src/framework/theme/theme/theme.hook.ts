@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import { ThemeContext } from './themeContext';
+import { useThemeTransition } from './themeTransition.hook';
+import { createStyleSheetInterpolation } from './themeTransition.service';
+import { CreateStylesFunction } from './themeConsumer.component';
+import {
+  StyleSheetType,
+  ThemeType,
+} from './type';
+import { createThemedStyleSheet } from '../style/style.service';
+
+/**
+ * Hook which is used to retrieve current theme inside function components.
+ * Basically used when need to use theme variable somewhere.
+ *
+ * @return {ThemeType} - Theme provided by the nearest ThemeProvider.
+ * Theme is changed at once, even if ThemeProvider declares `transition`.
+ *
+ * @example Theme Hook Usage
+ *
+ * ```
+ * import React from 'react';
+ * import { View, ViewProps } from 'react-native';
+ * import { useTheme, ThemeType } from 'react-native-ui-kitten';
+ *
+ * export const ThemedView = (props?: ViewProps): React.ReactElement<ViewProps> => {
+ *   const theme: ThemeType = useTheme();
+ *
+ *   return (
+ *     <View
+ *       {...props}
+ *       style={[{ backgroundColor: theme['color-primary-default'] }, props.style]}
+ *     />
+ *   );
+ * };
+ * ```
+ */
+export const useTheme = (): ThemeType => {
+  return React.useContext(ThemeContext);
+};
+
+/**
+ * Hook which is used to create themed styles inside function components.
+ * Works the same way as `withStyles` function does, but without wrapping component.
+ * Styles are re-created only once theme or `createStyles` function is changed,
+ * so it is recommended to declare `createStyles` outside of component.
+ * Colors are transitioned once theme is changed by ThemeProvider declaring `transition`.
+ *
+ * @param createStyles - Type: {(theme: ThemeType) => any}. Determines arrow function used to create styles.
+ *
+ * @return {StyleSheetType} - Themed styles.
+ *
+ * @example Style Sheet Hook Usage
+ *
+ * ```
+ * import React from 'react';
+ * import { TouchableOpacity, TouchableOpacityProps } from 'react-native';
+ * import { useStyleSheet, ThemeType } from 'react-native-ui-kitten';
+ *
+ * export const ThemedButton = (props?: TouchableOpacityProps): React.ReactElement<TouchableOpacityProps> => {
+ *   const styles = useStyleSheet(createStyles);
+ *
+ *   return (
+ *     <TouchableOpacity
+ *       {...props}
+ *       style={[styles.container, props.style]}
+ *     />
+ *   );
+ * };
+ *
+ * const createStyles = (theme: ThemeType) => ({
+ *   container: {
+ *     backgroundColor: theme['color-primary-default'],
+ *   },
+ * });
+ * ```
+ */
+export const useStyleSheet = (createStyles: CreateStylesFunction): StyleSheetType => {
+  const theme: ThemeType = useTheme();
+
+  const styleSheet: StyleSheetType = React.useMemo((): StyleSheetType => {
+    return createThemedStyleSheet(createStyles(theme), theme);
+  }, [theme, createStyles]);
+
+  return useThemeTransition(styleSheet, theme, createStyleSheetInterpolation);
+};
@@ -1,15 +1,45 @@
-import { ThemeType } from './type';
+import {
+  ThemeIssue,
+  ThemeIssueType,
+  ThemeType,
+} from './type';
+import {
+  ColorExpressionResult,
+  evaluateColorExpression,
+  isColorExpression,
+} from './colorExpression.service';
 
 const SYMBOL_REFERENCE: string = '$';
+const SEPARATOR_THEME_KEY: string = '-';
+const SEPARATOR_REFERENCES: string = ' -> ';
+
+const COLOR_KEY_ENTRY: string = 'color';
+const COLOR_PATTERNS: RegExp[] = [
+  /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i,
+  /^(rgb|hsl)a?\(.+\)$/i,
+  // named colors, e.g `transparent`
+  /^[a-z]+$/i,
+];
+
+/**
+ * Evaluated color expressions, keyed by theme object and expression.
+ * So that each of expressions is evaluated once per theme.
+ */
+const expressionCache: WeakMap<ThemeType, Map<string, ColorExpressionResult>> = new WeakMap();
 
 /**
- * @param name: string - theme property name, like `backgroundColor`
+ * @param name: string - theme property name, like `backgroundColor`, or color expression,
+ * like `alpha($color-primary-500, 0.24)`
  * @param theme: ThemeType - theme
  * @param fallback: any - fallback value
  *
  * @return any. Theme property value if it presents in theme, fallback otherwise
  */
 export function getThemeValue(name: string, theme: ThemeType, fallback?: any): any | undefined {
+  if (isColorExpression(name)) {
+    return evaluateThemeExpression(name, theme).value || fallback;
+  }
+
   if (isReferenceKey(name)) {
     const themeKey: string = toThemeKey(name);
 
@@ -19,18 +49,141 @@ export function getThemeValue(name: string, theme: ThemeType, fallback?: any): a
   return findThemeValue(name, theme) || fallback;
 }
 
-function findThemeValue(name: string, theme: ThemeType): any | undefined {
+/**
+ * Validates theme references and color values.
+ *
+ * Detects:
+ * - cyclic references, like `"a": "$b", "b": "$a"`;
+ * - references to keys which are not present in theme;
+ * - non-color values of keys expected to be colors (containing `color` word, like `text-basic-color`).
+ *
+ * @param theme: ThemeType - theme
+ *
+ * @return ThemeIssue[]. Issues found in theme, empty if theme is valid
+ */
+export function validateTheme(theme: ThemeType): ThemeIssue[] {
+  return Object.keys(theme).reduce((acc: ThemeIssue[], key: string): ThemeIssue[] => {
+    const issue: ThemeIssue | undefined = findThemeIssue(key, theme);
+
+    return issue ? [...acc, issue] : acc;
+  }, []);
+}
+
+function findThemeValue(name: string, theme: ThemeType, references: string[] = []): any | undefined {
   const value: any = theme[name];
 
   if (isReferenceKey(value)) {
     const themeKey: string = toThemeKey(value);
+    const nextReferences: string[] = [...references, name];
 
-    return findThemeValue(themeKey, theme);
+    // cyclic reference. Resolves nothing instead of infinite lookup
+    if (nextReferences.includes(themeKey)) {
+      return undefined;
+    }
+
+    return findThemeValue(themeKey, theme, nextReferences);
+  }
+
+  if (isColorExpression(value)) {
+    return evaluateThemeExpression(value, theme, [...references, name]).value;
   }
 
   return value;
 }
 
+/**
+ * @param expression: string - color expression, like `alpha($color-primary-500, 0.24)`
+ * @param theme: ThemeType - theme to resolve references with
+ * @param references: string[] - keys referencing the expression, used to detect cyclic references
+ *
+ * @return ColorExpressionResult. Evaluated color, or an error describing why expression is invalid
+ */
+export function evaluateThemeExpression(expression: string,
+                                        theme: ThemeType,
+                                        references: string[] = []): ColorExpressionResult {
+
+  const resolve = (reference: string): any | undefined => {
+    const themeKey: string = toThemeKey(reference);
+
+    // cyclic reference. Resolves nothing instead of infinite lookup
+    if (references.includes(themeKey)) {
+      return undefined;
+    }
+
+    return findThemeValue(themeKey, theme, references);
+  };
+
+  if (!isCacheableTheme(theme)) {
+    return evaluateColorExpression(expression, resolve);
+  }
+
+  const themeCache: Map<string, ColorExpressionResult> = expressionCache.get(theme) || new Map();
+
+  if (!themeCache.has(expression)) {
+    expressionCache.set(theme, themeCache.set(expression, evaluateColorExpression(expression, resolve)));
+  }
+
+  return themeCache.get(expression);
+}
+
+function findThemeIssue(key: string, theme: ThemeType): ThemeIssue | undefined {
+  const references: string[] = [key];
+  let value: any = theme[key];
+
+  while (isReferenceKey(value)) {
+    const themeKey: string = toThemeKey(value);
+
+    if (references.includes(themeKey)) {
+      const cycle: string[] = [...references, themeKey];
+
+      return {
+        type: ThemeIssueType.CYCLIC_REFERENCE,
+        key: key,
+        references: cycle,
+        message: `"${key}" has cyclic reference: ${cycle.join(SEPARATOR_REFERENCES)}`,
+      };
+    }
+
+    if (!theme.hasOwnProperty(themeKey)) {
+      return {
+        type: ThemeIssueType.DANGLING_REFERENCE,
+        key: key,
+        references: references,
+        message: `"${key}" references "${themeKey}" which is not present in theme`,
+      };
+    }
+
+    references.push(themeKey);
+    value = theme[themeKey];
+  }
+
+  if (isColorExpression(value)) {
+    const { value: expressionValue, error } = evaluateThemeExpression(value, theme, references);
+
+    if (error) {
+      return {
+        type: ThemeIssueType.INVALID_EXPRESSION,
+        key: key,
+        references: references,
+        message: `"${key}" has invalid expression ${value}: ${error}`,
+      };
+    }
+
+    value = expressionValue;
+  }
+
+  if (isColorKey(key) && !isColor(value)) {
+    return {
+      type: ThemeIssueType.INVALID_COLOR,
+      key: key,
+      references: references,
+      message: `"${key}" is expected to be a color, but resolved to ${JSON.stringify(value)}`,
+    };
+  }
+
+  return undefined;
+}
+
 /**
  * @returns true if theme value references to another
  */
@@ -38,6 +191,24 @@ function isReferenceKey(value: any): boolean {
   return `${value}`.startsWith(SYMBOL_REFERENCE);
 }
 
+/**
+ * @returns true if theme can be used as a key of WeakMap caches
+ */
+export function isCacheableTheme(theme: ThemeType): boolean {
+  return theme !== null && typeof theme === 'object';
+}
+
+/**
+ * @returns true if theme key is expected to hold a color, like `color-primary-500` or `text-basic-color`
+ */
+function isColorKey(key: string): boolean {
+  return key.split(SEPARATOR_THEME_KEY).includes(COLOR_KEY_ENTRY);
+}
+
+function isColor(value: any): boolean {
+  return typeof value === 'string' && COLOR_PATTERNS.some((pattern: RegExp): boolean => pattern.test(value));
+}
+
 /**
  * Transforms reference key to theme key
  */
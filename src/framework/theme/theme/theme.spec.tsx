@@ -1,4 +1,5 @@
 import React from 'react';
+import merge from 'lodash.merge';
 import {
   TouchableOpacity,
   View,
@@ -10,14 +11,44 @@ import {
   render,
   RenderAPI,
 } from 'react-native-testing-library';
-import { ReactTestInstance } from 'react-test-renderer';
+import {
+  act,
+  ReactTestInstance,
+} from 'react-test-renderer';
 import {
   ThemeProvider,
   ThemeProviderProps,
 } from './themeProvider.component';
-import { withStyles } from './themeConsumer.component';
-import { getThemeValue } from './theme.service';
-import { ThemeType } from './type';
+import {
+  CreateStylesFunction,
+  ThemedComponentProps,
+  withStyles,
+} from './themeConsumer.component';
+import {
+  useStyleSheet,
+  useTheme,
+} from './theme.hook';
+import {
+  getThemeValue,
+  validateTheme,
+} from './theme.service';
+import { createTheme } from './themeFactory.service';
+import {
+  createStyleSheetInterpolation,
+  createThemedStyleInterpolation,
+  createTransitionSteps,
+  THEME_TRANSITION_STEPS,
+} from './themeTransition.service';
+import { ThemedStyleSheet } from './themedStyleSheet.service';
+import {
+  ColorScheme,
+  ColorSchemeSource,
+  ThemeIssue,
+  StyleSheetType,
+  ThemedStyleType,
+  ThemeIssueType,
+  ThemeType,
+} from './type';
 import {
   theme,
   themeInverse,
@@ -28,7 +59,7 @@ const themeChangeTouchableTestId: string = '@theme/btnChangeTheme';
 
 const json = (object: any): string => JSON.stringify(object);
 
-class Mock extends React.Component<ViewProps> {
+class Mock extends React.Component<ViewProps & ThemedComponentProps> {
 
   public render(): React.ReactElement<ViewProps> {
     return (
@@ -124,6 +155,187 @@ describe('@theme: service method checks', () => {
     expect(themeValue).toEqual(theme['gray-100']);
   });
 
+  it('resolves nothing for cyclic references', async () => {
+    const cyclicTheme: ThemeType = {
+      'self-referencing': '$self-referencing',
+      'cyclic-1': '$cyclic-2',
+      'cyclic-2': '$cyclic-1',
+    };
+
+    expect(getThemeValue('self-referencing', cyclicTheme)).toBeUndefined();
+    expect(getThemeValue('$cyclic-1', cyclicTheme, 'fallback')).toEqual('fallback');
+  });
+
+});
+
+describe('@theme: color expression checks', () => {
+
+  const expressionTheme: ThemeType = {
+    'color-red': '#FF0000',
+    'color-blue': '#0000FF',
+    'color-gray': '#808080',
+    'color-red-transparent': 'alpha($color-red, 0.24)',
+    'color-gray-dark': 'darken($color-gray, 10%)',
+    'color-gray-light': 'lighten($color-gray, 10%)',
+    'color-purple': 'mix($color-red, $color-blue, 25%)',
+    'color-overlay': '$color-red-transparent',
+  };
+
+  it('* evaluates color functions', () => {
+    expect(getThemeValue('color-red-transparent', expressionTheme)).toEqual('rgba(255, 0, 0, 0.24)');
+    expect(getThemeValue('color-gray-dark', expressionTheme)).toEqual('#676767');
+    expect(getThemeValue('color-gray-light', expressionTheme)).toEqual('#9A9A9A');
+    expect(getThemeValue('color-purple', expressionTheme)).toEqual('#4000BF');
+  });
+
+  it('* evaluates referenced expressions', () => {
+    expect(getThemeValue('$color-overlay', expressionTheme)).toEqual('rgba(255, 0, 0, 0.24)');
+  });
+
+  it('* evaluates expressions used as values', () => {
+    const value = getThemeValue('alpha(darken($color-gray, 10%), 50%)', expressionTheme);
+
+    expect(value).toEqual('rgba(103, 103, 103, 0.5)');
+    expect(getThemeValue('mix(#000000, #FFFFFF)', expressionTheme)).toEqual('#808080');
+  });
+
+  it('* falls back for invalid expressions', () => {
+    expect(getThemeValue('alpha($color-undefined, 0.24)', expressionTheme, 'fallback')).toEqual('fallback');
+    expect(getThemeValue('alpha($color-red, 24)', expressionTheme, 'fallback')).toEqual('fallback');
+  });
+
+});
+
+describe('@theme: validation checks', () => {
+
+  it('finds no issues in valid theme', () => {
+    const issues: ThemeIssue[] = validateTheme({
+      ...theme,
+      'color-primary': '$blue-primary',
+      'text-basic-color': 'rgba(0, 0, 0, 0.48)',
+      'background-basic-color': 'transparent',
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('finds cyclic references', () => {
+    const issues: ThemeIssue[] = validateTheme({
+      ...theme,
+      'self-referencing': '$self-referencing',
+      'cyclic-1': '$cyclic-2',
+      'cyclic-2': '$cyclic-1',
+    });
+
+    expect(issues.map((issue: ThemeIssue) => issue.type)).toEqual([
+      ThemeIssueType.CYCLIC_REFERENCE,
+      ThemeIssueType.CYCLIC_REFERENCE,
+      ThemeIssueType.CYCLIC_REFERENCE,
+    ]);
+    expect(issues[1].key).toEqual('cyclic-1');
+    expect(issues[1].references).toEqual(['cyclic-1', 'cyclic-2', 'cyclic-1']);
+  });
+
+  it('finds dangling references', () => {
+    const issues: ThemeIssue[] = validateTheme({
+      ...theme,
+      'dangling': '$referencing-dangling',
+      'referencing-dangling': '$undefined',
+    });
+
+    expect(issues.length).toEqual(2);
+    expect(issues[0].type).toEqual(ThemeIssueType.DANGLING_REFERENCE);
+    expect(issues[0].key).toEqual('dangling');
+    expect(issues[0].message).toContain('undefined');
+  });
+
+  it('finds non-color values of color keys', () => {
+    const issues: ThemeIssue[] = validateTheme({
+      ...theme,
+      'color-number': 42,
+      'text-basic-color': '$gray-size',
+      'gray-size': '12px',
+    });
+
+    expect(issues.map((issue: ThemeIssue) => issue.key)).toEqual([
+      'color-number',
+      'text-basic-color',
+    ]);
+    expect(issues[1].type).toEqual(ThemeIssueType.INVALID_COLOR);
+  });
+
+  it('finds invalid expressions', () => {
+    const issues: ThemeIssue[] = validateTheme({
+      ...theme,
+      'color-valid': 'alpha($gray-100, 0.5)',
+      'color-unknown-function': 'alhpa($gray-100, 0.5)',
+      'color-dangling': 'darken($undefined, 10%)',
+      'color-cyclic': 'lighten($color-cyclic, 10%)',
+      'color-arguments': 'mix($gray-100)',
+    });
+
+    expect(issues.map((issue: ThemeIssue) => issue.key)).toEqual([
+      'color-unknown-function',
+      'color-dangling',
+      'color-cyclic',
+      'color-arguments',
+    ]);
+    expect(issues.map((issue: ThemeIssue) => issue.type)).toEqual([
+      ThemeIssueType.INVALID_EXPRESSION,
+      ThemeIssueType.INVALID_EXPRESSION,
+      ThemeIssueType.INVALID_EXPRESSION,
+      ThemeIssueType.INVALID_EXPRESSION,
+    ]);
+    expect(issues[0].message).toContain('"alhpa" is not a color function');
+  });
+
+});
+
+describe('@theme: factory checks', () => {
+
+  const brandTheme: ThemeType = createTheme({
+    primary: '#3366FF',
+    danger: 'rgb(255, 61, 113)',
+  }, {
+    ...theme,
+    'color-primary-default': '$color-primary-500',
+  });
+
+  it('creates tonal scales', () => {
+    const shades: string[] = [100, 200, 300, 400, 500, 600, 700, 800, 900].map((shade: number): string => {
+      return brandTheme[`color-primary-${shade}`];
+    });
+
+    expect(shades).toEqual([
+      '#EFF3FF',
+      '#CEDAFF',
+      '#9DB6FF',
+      '#648BFF',
+      '#3366FF',
+      '#2B56D6',
+      '#2345AD',
+      '#1C378A',
+      '#152B6B',
+    ]);
+    expect(brandTheme['color-danger-500']).toEqual('#FF3D71');
+  });
+
+  it('keeps base theme values', () => {
+    expect(brandTheme['gray-100']).toEqual(theme['gray-100']);
+    expect(getThemeValue('color-primary-default', brandTheme)).toEqual('#3366FF');
+    expect(validateTheme(brandTheme)).toEqual([]);
+  });
+
+  it('skips invalid colors', () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => null);
+
+    const value: ThemeType = createTheme({ primary: 'primary' }, theme);
+
+    expect(json(value)).toEqual(json(theme));
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
+
+    consoleWarnSpy.mockRestore();
+  });
 
 });
 
@@ -180,6 +392,21 @@ describe('@theme: ui component checks', () => {
     expect(json(themeProp)).toEqual(json(themeInverse));
   });
 
+  it('* reports theme issues in dev mode', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => null);
+
+    render(
+      <ThemeProvider theme={{ ...theme, 'color-primary': '$undefined' }}>
+        <View/>
+      </ThemeProvider>,
+    );
+
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+    expect(consoleErrorSpy.mock.calls[0][0]).toContain('"color-primary"');
+
+    consoleErrorSpy.mockRestore();
+  });
+
   it('* able to override theme', () => {
     const component: RenderAPI = render(
       <OverrideMock
@@ -196,7 +423,436 @@ describe('@theme: ui component checks', () => {
     const { theme: theme2 } = themedComponents[1].props;
 
     expect(json(theme1)).toEqual(json(theme));
-    expect(json(theme2)).toEqual(json(themeInverse));
+    expect(json(theme2)).toEqual(json(merge({}, theme, themeInverse)));
+  });
+
+  it('* able to override theme partially', () => {
+    const ThemedComponent1 = withStyles(Mock);
+    const ThemedComponent2 = withStyles(Mock, (value: ThemeType) => ({
+      container: {
+        backgroundColor: 'double-referencing',
+      },
+    }));
+
+    const component: RenderAPI = render(
+      <ThemeProvider theme={theme}>
+        <ThemedComponent1/>
+        <ThemeProvider theme={{ 'referencing': '$pink-primary' }}>
+          <ThemedComponent2/>
+        </ThemeProvider>
+      </ThemeProvider>,
+    );
+
+    const themedComponents: ReactTestInstance[] = component.getAllByType(Mock);
+
+    const { theme: theme1 } = themedComponents[0].props;
+    const { theme: theme2, themedStyle } = themedComponents[1].props;
+
+    expect(theme1).toBe(theme);
+    expect(theme2['gray-100']).toEqual(theme['gray-100']);
+    expect(theme2.referencing).toEqual('$pink-primary');
+    expect(themedStyle.container.backgroundColor).toEqual(theme['pink-primary']);
+  });
+
+  it('* provides the same theme object until themes are changed', () => {
+    const override: ThemeType = { 'referencing': '$pink-primary' };
+
+    const renderTree = (value: ThemeType): React.ReactElement<ThemeProviderProps> => (
+      <ThemeProvider theme={value}>
+        <ThemeProvider theme={override}>
+          <ThemedComponent/>
+        </ThemeProvider>
+      </ThemeProvider>
+    );
+
+    const ThemedComponent = withStyles(Mock);
+
+    const component: RenderAPI = render(renderTree(theme));
+    const { theme: initialTheme } = component.getByType(Mock).props;
+
+    component.update(renderTree(theme));
+    expect(component.getByType(Mock).props.theme).toBe(initialTheme);
+
+    component.update(renderTree(themeInverse));
+    expect(component.getByType(Mock).props.theme).not.toBe(initialTheme);
+    expect(component.getByType(Mock).props.theme['text-primary']).toEqual(themeInverse['text-primary']);
+  });
+
+});
+
+describe('@theme: hooks checks', () => {
+
+  const createStyles: CreateStylesFunction = (value: ThemeType) => ({
+    container: {
+      backgroundColor: value['gray-primary'],
+      borderColor: 'referencing',
+    },
+  });
+
+  const ThemeHookMock = (props?: ViewProps): React.ReactElement<ViewProps> => {
+    const value: ThemeType = useTheme();
+    const styles = useStyleSheet(createStyles);
+
+    return (
+      <Mock
+        {...props}
+        theme={value}
+        themedStyle={styles}
+      />
+    );
+  };
+
+  it('* useTheme receives theme', () => {
+    const component: RenderAPI = render(
+      <ThemeProvider theme={theme}>
+        <ThemeHookMock/>
+      </ThemeProvider>,
+    );
+
+    const themedComponent: ReactTestInstance = component.getByType(Mock);
+
+    expect(json(themedComponent.props.theme)).toEqual(json(theme));
+  });
+
+  it('* useStyleSheet receives themed styles', () => {
+    const component: RenderAPI = render(
+      <ThemeProvider theme={theme}>
+        <ThemeHookMock/>
+      </ThemeProvider>,
+    );
+
+    const themedComponent: ReactTestInstance = component.getByType(Mock);
+
+    const { themedStyle } = themedComponent.props;
+
+    expect(themedStyle.container.backgroundColor).toEqual(theme['gray-primary']);
+    expect(themedStyle.container.borderColor).toEqual(theme['gray-100']);
+  });
+
+  it('* useStyleSheet memoizes themed styles', () => {
+    const component: RenderAPI = render(
+      <ThemeProvider theme={theme}>
+        <ThemeHookMock/>
+      </ThemeProvider>,
+    );
+
+    const { themedStyle } = component.getByType(Mock).props;
+
+    component.update(
+      <ThemeProvider theme={theme}>
+        <ThemeHookMock/>
+      </ThemeProvider>,
+    );
+
+    expect(component.getByType(Mock).props.themedStyle).toBe(themedStyle);
+
+    component.update(
+      <ThemeProvider theme={themeInverse}>
+        <ThemeHookMock/>
+      </ThemeProvider>,
+    );
+
+    const { themedStyle: inverseThemedStyle } = component.getByType(Mock).props;
+
+    expect(inverseThemedStyle).not.toBe(themedStyle);
+    expect(inverseThemedStyle.container.backgroundColor).toEqual(themeInverse['gray-primary']);
+  });
+
+});
+
+describe('@theme: themed style sheet checks', () => {
+
+  const themedStyles = ThemedStyleSheet.create({
+    container: {
+      padding: 16,
+      backgroundColor: '$gray-primary',
+      borderColor: '$referencing',
+    },
+  });
+
+  it('* resolves theme references', () => {
+    const styles = themedStyles(theme);
+
+    expect(styles.container).toEqual({
+      padding: 16,
+      backgroundColor: theme['gray-primary'],
+      borderColor: theme['gray-100'],
+    });
+  });
+
+  it('* caches styles per theme', () => {
+    const styles = themedStyles(theme);
+    const inverseStyles = themedStyles(themeInverse);
+
+    expect(themedStyles(theme)).toBe(styles);
+    expect(inverseStyles).not.toBe(styles);
+    expect(inverseStyles.container.backgroundColor).toEqual(themeInverse['gray-primary']);
+  });
+
+  it('* can be used with useStyleSheet', () => {
+    const ThemedStyleSheetMock = (props?: ViewProps): React.ReactElement<ViewProps> => {
+      const styles = useStyleSheet(themedStyles);
+
+      return (
+        <Mock
+          {...props}
+          themedStyle={styles}
+        />
+      );
+    };
+
+    const component: RenderAPI = render(
+      <ThemeProvider theme={theme}>
+        <ThemedStyleSheetMock/>
+      </ThemeProvider>,
+    );
+
+    const { themedStyle } = component.getByType(Mock).props;
+
+    expect(themedStyle.container.backgroundColor).toEqual(theme['gray-primary']);
+  });
+
+});
+
+describe('@theme: color scheme checks', () => {
+
+  class ColorSchemeSourceMock implements ColorSchemeSource {
+
+    public listeners: ((colorScheme: ColorScheme) => void)[] = [];
+
+    constructor(public colorScheme: ColorScheme) {
+    }
+
+    public getColorScheme(): ColorScheme {
+      return this.colorScheme;
+    }
+
+    public subscribe(listener: (colorScheme: ColorScheme) => void): () => void {
+      this.listeners.push(listener);
+
+      return () => {
+        this.listeners = this.listeners.filter(l => l !== listener);
+      };
+    }
+
+    public setColorScheme(colorScheme: ColorScheme): void {
+      this.colorScheme = colorScheme;
+      this.listeners.forEach(listener => listener(colorScheme));
+    }
+  }
+
+  const ThemedComponent = withStyles(Mock);
+
+  const themes = {
+    light: theme,
+    dark: themeInverse,
+  };
+
+  it('* selects theme by system color scheme', () => {
+    const source: ColorSchemeSourceMock = new ColorSchemeSourceMock('dark');
+
+    const component: RenderAPI = render(
+      <ThemeProvider themes={themes} colorSchemeSource={source}>
+        <ThemedComponent/>
+      </ThemeProvider>,
+    );
+
+    expect(component.getByType(Mock).props.theme).toBe(themeInverse);
+  });
+
+  it('* switches theme when system color scheme changes', () => {
+    const source: ColorSchemeSourceMock = new ColorSchemeSourceMock('light');
+
+    const component: RenderAPI = render(
+      <ThemeProvider themes={themes} mode='system' colorSchemeSource={source}>
+        <ThemedComponent/>
+      </ThemeProvider>,
+    );
+
+    expect(component.getByType(Mock).props.theme).toBe(theme);
+
+    source.setColorScheme('dark');
+
+    expect(component.getByType(Mock).props.theme).toBe(themeInverse);
+
+    component.unmount();
+
+    expect(source.listeners.length).toEqual(0);
+  });
+
+  it('* ignores system color scheme in explicit mode', () => {
+    const source: ColorSchemeSourceMock = new ColorSchemeSourceMock('dark');
+
+    const component: RenderAPI = render(
+      <ThemeProvider themes={themes} mode='light' colorSchemeSource={source}>
+        <ThemedComponent/>
+      </ThemeProvider>,
+    );
+
+    expect(source.listeners.length).toEqual(0);
+    expect(component.getByType(Mock).props.theme).toBe(theme);
+
+    component.update(
+      <ThemeProvider themes={themes} mode='system' colorSchemeSource={source}>
+        <ThemedComponent/>
+      </ThemeProvider>,
+    );
+
+    expect(source.listeners.length).toEqual(1);
+    expect(component.getByType(Mock).props.theme).toBe(themeInverse);
+  });
+
+});
+
+describe('@theme: transition checks', () => {
+
+  const createStyles: CreateStylesFunction = (): StyleSheetType => ({
+    container: { backgroundColor: 'text-primary', borderColor: 'gray-100', width: 10 },
+  });
+
+  const ThemedComponent = withStyles(Mock, createStyles);
+
+  it('interpolates color values', () => {
+    const interpolate = createThemedStyleInterpolation(
+      { 'color': '#000000', 'size': 12 },
+      { 'color': '#FFFFFF', 'size': 14 },
+    );
+
+    expect(interpolate(0)).toEqual({ 'color': '#000000', 'size': 14 });
+    expect(interpolate(0.5)).toEqual({ 'color': '#808080', 'size': 14 });
+    expect(interpolate(1)).toEqual({ 'color': '#FFFFFF', 'size': 14 });
+  });
+
+  it('does not interpolate styles without changed colors', () => {
+    const style: ThemedStyleType = { 'color': '#000000', 'size': 12 };
+
+    expect(createThemedStyleInterpolation(style, { ...style, 'size': 14 })).toBeNull();
+    expect(createStyleSheetInterpolation({ container: style }, { container: { ...style } })).toBeNull();
+  });
+
+  it('* animates theme change', () => {
+    jest.useFakeTimers();
+
+    const component: RenderAPI = render(
+      <ThemeProvider theme={theme} transition={{ duration: 300 }}>
+        <ThemedComponent/>
+      </ThemeProvider>,
+    );
+
+    component.update(
+      <ThemeProvider theme={themeInverse} transition={{ duration: 300 }}>
+        <ThemedComponent/>
+      </ThemeProvider>,
+    );
+
+    const { theme: nextTheme, themedStyle } = component.getByType(Mock).props;
+
+    expect(nextTheme).toBe(themeInverse);
+    expect(themedStyle.container.backgroundColor).toEqual(theme['text-primary']);
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    const { container } = component.getByType(Mock).props.themedStyle;
+
+    expect(container.backgroundColor).toEqual(themeInverse['text-primary']);
+    expect(container.width).toEqual(10);
+
+    jest.useRealTimers();
+  });
+
+  it('creates fixed set of transition steps', () => {
+    const to: ThemedStyleType = { 'color': '#FFFFFF' };
+    const interpolate = createThemedStyleInterpolation({ 'color': '#000000' }, to);
+    const steps: ThemedStyleType[] = createTransitionSteps(interpolate, to, 4);
+
+    expect(steps.map((step: ThemedStyleType): string => step.color)).toEqual([
+      '#000000',
+      '#404040',
+      '#808080',
+      '#BFBFBF',
+      '#FFFFFF',
+    ]);
+    expect(steps[4]).toBe(to);
+  });
+
+  it('* re-renders only components which colors change, once per transition step', () => {
+    jest.useFakeTimers();
+
+    // Counts committed renders
+    const renders = { changing: 0, static: 0, theme: 0 };
+
+    const createStaticStyles: CreateStylesFunction = (): StyleSheetType => ({
+      container: { backgroundColor: 'gray-100' },
+    });
+
+    const ChangingStyleRecorder = (): React.ReactElement => {
+      useStyleSheet(createStyles);
+      React.useEffect(() => {
+        renders.changing += 1;
+      });
+
+      return null;
+    };
+
+    const StaticStyleRecorder = (): React.ReactElement => {
+      useStyleSheet(createStaticStyles);
+      React.useEffect(() => {
+        renders.static += 1;
+      });
+
+      return null;
+    };
+
+    const ThemeRecorder = (): React.ReactElement => {
+      useTheme();
+      React.useEffect(() => {
+        renders.theme += 1;
+      });
+
+      return null;
+    };
+
+    const renderProvider = (value: ThemeType): React.ReactElement => (
+      <ThemeProvider theme={value} transition={{ duration: 300 }}>
+        <ChangingStyleRecorder/>
+        <StaticStyleRecorder/>
+        <ThemeRecorder/>
+      </ThemeProvider>
+    );
+
+    const component: RenderAPI = render(renderProvider(theme));
+
+    component.update(renderProvider(themeInverse));
+
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    // initial render, next theme and each of steps
+    expect(renders.changing).toBeGreaterThan(2);
+    expect(renders.changing).toBeLessThanOrEqual(THEME_TRANSITION_STEPS + 2);
+    expect(renders.static).toEqual(2);
+    expect(renders.theme).toEqual(2);
+
+    jest.useRealTimers();
+  });
+
+  it('* changes theme immediately without transition', () => {
+    const component: RenderAPI = render(
+      <ThemeProvider theme={theme}>
+        <ThemedComponent/>
+      </ThemeProvider>,
+    );
+
+    component.update(
+      <ThemeProvider theme={themeInverse}>
+        <ThemedComponent/>
+      </ThemeProvider>,
+    );
+
+    expect(component.getByType(Mock).props.theme).toBe(themeInverse);
   });
 
 });
@@ -7,13 +7,14 @@
 import React from 'react';
 import hoistNonReactStatics from 'hoist-non-react-statics';
 import { ThemeContext } from './themeContext';
+import { StyleSheetTransition } from './themeTransition.component';
+import { isCacheableTheme } from './theme.service';
 import {
   StyleSheetType,
   ThemedStyleType,
   ThemeType,
 } from './type';
-import { createThemedStyle } from '../style/style.service';
-import { StyleType } from '@kitten/theme';
+import { createThemedStyleSheet } from '../style/style.service';
 
 interface PrivateProps<T> {
   forwardedRef?: React.RefObject<T>;
@@ -40,6 +41,7 @@ export type ThemedComponentClass<P> = React.ComponentClass<ThemedComponentProps
  * @property {ThemeType} theme - Determines theme used to style component.
  *
  * @property {StyleType} themedStyle - Determines component style for it's current state.
+ * Colors are transitioned once theme is changed by ThemeProvider declaring `transition`.
  *
  * @param Component - Type: {React.ComponentClass}. Determines class of component to be themed.
  *
@@ -101,21 +103,34 @@ export const withStyles = <P extends object>(Component: React.ComponentType<P>,
   type WrappedElement = React.ReactElement<WrappedProps>;
   type WrappedElementInstance = React.ReactInstance;
 
-  class Wrapper extends React.Component<WrappingProps> {
+  // Style sheets resolved per theme, so that each theme consumer receives the same ones until theme is changed
+  const themedStyles: WeakMap<ThemeType, ThemedStyleType> = new WeakMap();
 
-    private createThemedStyles = (style: ThemedStyleType, theme: ThemeType): ThemedStyleType => {
-      return Object.keys(style).reduce((acc: StyleType, current: string): ThemedStyleType => {
-        return { ...acc, [current]: createThemedStyle(style[current], theme) };
-      }, {});
-    };
+  const createThemedStyle = (theme: ThemeType): ThemedStyleType => {
+    const style: StyleSheetType = createStyles ? createStyles(theme) : {};
 
-    private withThemedProps = (source: P, context: Context): WrappedProps => {
-      const style: ThemedStyleType = createStyles ? createStyles(context.theme) : {};
+    return createThemedStyleSheet(style, theme);
+  };
 
+  const getThemedStyle = (theme: ThemeType): ThemedStyleType => {
+    if (!isCacheableTheme(theme)) {
+      return createThemedStyle(theme);
+    }
+
+    if (!themedStyles.has(theme)) {
+      themedStyles.set(theme, createThemedStyle(theme));
+    }
+
+    return themedStyles.get(theme);
+  };
+
+  class Wrapper extends React.Component<WrappingProps> {
+
+    private withThemedProps = (source: P, context: Context): WrappedProps => {
       return {
         ...source,
         theme: context.theme,
-        themedStyle: this.createThemedStyles(style, context.theme),
+        themedStyle: getThemedStyle(context.theme),
       };
     };
 
@@ -123,12 +138,21 @@ export const withStyles = <P extends object>(Component: React.ComponentType<P>,
       const { forwardedRef, ...restProps } = this.props;
       const props: WrappedProps = this.withThemedProps(restProps as P, context);
 
-      return (
+      const renderComponent = (themedStyle: ThemedStyleType): WrappedElement => (
         <Component
           {...props}
+          themedStyle={themedStyle}
           ref={forwardedRef}
         />
       );
+
+      return (
+        <StyleSheetTransition
+          style={props.themedStyle}
+          theme={context.theme}>
+          {renderComponent}
+        </StyleSheetTransition>
+      );
     };
 
     public render(): React.ReactNode {
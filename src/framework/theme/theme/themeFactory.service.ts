@@ -0,0 +1,90 @@
+import {
+  BLACK,
+  mixColors,
+  parseColor,
+  RGBAColor,
+  toColorString,
+  WHITE,
+} from './color.service';
+import {
+  ThemeColors,
+  ThemeType,
+} from './type';
+
+const SEPARATOR_THEME_KEY: string = '-';
+const PREFIX_COLOR_KEY: string = 'color';
+
+const SHADE_BASE: number = 500;
+
+/**
+ * Weights of white (for lighter shades) or black (for darker shades) color mixed with a brand color.
+ * Picked to be close to Eva Design System tonal scales.
+ */
+const SHADE_WEIGHTS: { [shade: number]: number } = {
+  100: 0.92,
+  200: 0.76,
+  300: 0.52,
+  400: 0.24,
+  600: 0.16,
+  700: 0.32,
+  800: 0.46,
+  900: 0.58,
+};
+
+/**
+ * Creates a theme based on a small set of brand colors.
+ *
+ * Generates `100` - `900` tonal scale for each of provided colors, where `500` is a brand color itself,
+ * and applies them on top of `base` theme.
+ * Since the rest of theme values (e.g `background-basic-color-1` or `color-primary-default`)
+ * are references to tonal scales, generated colors are applied across the whole theme.
+ *
+ * @param colors: ThemeColors - brand colors, like `{ primary: '#7A42F4', danger: '#E3242B' }`
+ * @param base: ThemeType - theme to build on top of, like Eva `light` or `dark` theme
+ *
+ * @return ThemeType. Theme ready to be used in ApplicationProvider
+ *
+ * @example Create Theme Usage
+ *
+ * ```
+ * import { mapping, light as lightTheme } from '@eva-design/eva';
+ * import { createTheme } from 'react-native-ui-kitten';
+ *
+ * const brandTheme = createTheme({ primary: '#7A42F4', success: '#1DB954' }, lightTheme);
+ *
+ * // <ApplicationProvider mapping={mapping} theme={brandTheme}>
+ * ```
+ */
+export function createTheme(colors: ThemeColors, base: ThemeType): ThemeType {
+  return Object.keys(colors).reduce((acc: ThemeType, status: string): ThemeType => {
+    const color: RGBAColor | undefined = parseColor(colors[status]);
+
+    if (!color) {
+      console.warn(`createTheme: unable to create "${status}" shades from ${JSON.stringify(colors[status])}.`);
+      return acc;
+    }
+
+    return { ...acc, ...createTonalScale(status, color) };
+  }, { ...base });
+}
+
+/**
+ * Creates `color-${status}-100` - `color-${status}-900` theme keys
+ *
+ * @param status (string) - status name, like `primary`
+ * @param color (RGBAColor) - color of `500` shade
+ *
+ * @return (ThemeType) - theme containing tonal scale
+ */
+function createTonalScale(status: string, color: RGBAColor): ThemeType {
+  return Object.keys(SHADE_WEIGHTS).map(Number).reduce((acc: ThemeType, shade: number): ThemeType => {
+    const mixColor: RGBAColor = shade < SHADE_BASE ? WHITE : BLACK;
+    const shadeColor: RGBAColor = mixColors(color, mixColor, SHADE_WEIGHTS[shade]);
+
+    return { ...acc, [createColorKey(status, shade)]: toColorString(shadeColor) };
+  }, { [createColorKey(status, SHADE_BASE)]: toColorString(color) });
+}
+
+function createColorKey(status: string, shade: number): string {
+  return [PREFIX_COLOR_KEY, status, shade].join(SEPARATOR_THEME_KEY);
+}
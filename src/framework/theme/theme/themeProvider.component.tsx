@@ -5,23 +5,345 @@
  */
 
 import React from 'react';
+import merge from 'lodash.merge';
+import {
+  Animated,
+  Easing,
+} from 'react-native';
 import { ThemeContext } from './themeContext';
-import { ThemeType } from './type';
+import { ThemeTransitionContext } from './themeTransitionContext';
+import {
+  ColorScheme,
+  ColorSchemeSource,
+  ColorSchemeThemes,
+  ThemeIssue,
+  ThemeMode,
+  ThemeTransition,
+  ThemeTransitionState,
+  ThemeType,
+} from './type';
+import { validateTheme } from './theme.service';
+import { DensityContext } from '../density/densityContext';
+import { Density } from '../density/type';
+import { SystemColorSchemeSource } from './colorScheme.service';
 
 export interface ThemeProviderProps {
-  theme: ThemeType;
+  theme?: ThemeType;
+  themes?: ColorSchemeThemes;
+  mode?: ThemeMode;
+  colorSchemeSource?: ColorSchemeSource;
+  transition?: ThemeTransition;
+  density?: Density;
   children?: React.ReactNode;
 }
 
-export class ThemeProvider extends React.PureComponent<ThemeProviderProps> {
+interface State {
+  colorScheme: ColorScheme;
+}
+
+interface MergedTheme {
+  parent: ThemeType;
+  theme: ThemeType;
+  value: ThemeType;
+}
+
+/**
+ * ThemeProvider component is designed to provide theme for basic components.
+ *
+ * @extends React.Component
+ *
+ * @property {ThemeType} theme - Determines the theme for basic components.
+ * When ThemeProvider is nested in another one, it is deep-merged with the parent theme,
+ * so it is possible to override only a part of it.
+ *
+ * @property {ColorSchemeThemes} themes - Determines the pair of `light` and `dark` themes.
+ * Takes priority over `theme` property. The one of them is selected depending on `mode` property.
+ *
+ * @property {string} mode - Determines which of `themes` is used.
+ * Can be `light`, `dark` or `system`. In `system` mode, theme is switched along with platform color scheme.
+ * Default is `system`.
+ *
+ * @property {ColorSchemeSource} colorSchemeSource - Determines the source of platform color scheme.
+ * Default is based on react-native `Appearance` API.
+ *
+ * @property {ThemeTransition} transition - Determines whether theme change should be animated.
+ * Once theme is changed, colors of styled components and `withStyles` or `useStyleSheet` styles are interpolated
+ * between ones resolved with previous and next theme for a `duration` milliseconds.
+ * Consumers receive the next theme at once. Transition is split into a fixed number of steps,
+ * so that only components which colors change are re-rendered, once per step rather than on each animation frame.
+ * Nested ThemeProvider animates its part of the application once provided with `transition` as well.
+ *
+ * @property {Density} density - Determines how dense styled components are.
+ * Can be `compact`, `comfortable` or `spacious`. `compact` and `spacious` scale paddings, min heights,
+ * font sizes and line heights provided by mapping down or up. When not provided, the parent one is used.
+ * Default is `comfortable`.
+ *
+ * @property {React.ReactNode} children - Determines themed components.
+ *
+ * @example ThemeProvider API example
+ *
+ * ```
+ * import React from 'react';
+ * import { light, dark } from '@eva-design/eva';
+ * import { ThemeProvider } from 'react-native-ui-kitten';
+ * import { Screen } from './path-to/screen.component';
+ *
+ * export const ThemedScreen = (): React.ReactElement => {
+ *   return (
+ *     <ThemeProvider themes={{ light, dark }} mode='system'>
+ *       <Screen/>
+ *     </ThemeProvider>
+ *   );
+ * };
+ * ```
+ *
+ * @example ThemeProvider Partial Override example
+ *
+ * ```
+ * import React from 'react';
+ * import { ThemeProvider } from 'react-native-ui-kitten';
+ * import { DangerZone } from './path-to/dangerZone.component';
+ *
+ * export const DangerZoneSection = (): React.ReactElement => {
+ *   // Components referencing `color-primary-default` are styled with danger colors
+ *
+ *   return (
+ *     <ThemeProvider theme={{ 'color-primary-default': '$color-danger-500' }}>
+ *       <DangerZone/>
+ *     </ThemeProvider>
+ *   );
+ * };
+ * ```
+ *
+ * @example ThemeProvider Transition example
+ *
+ * ```
+ * import React from 'react';
+ * import { ThemeProvider, ThemeType } from 'react-native-ui-kitten';
+ * import { Screen } from './path-to/screen.component';
+ *
+ * export const ThemedScreen = (props: { theme: ThemeType }): React.ReactElement => {
+ *   return (
+ *     <ThemeProvider theme={props.theme} transition={{ duration: 300 }}>
+ *       <Screen/>
+ *     </ThemeProvider>
+ *   );
+ * };
+ * ```
+ *
+ * @example ThemeProvider Density example
+ *
+ * ```
+ * import React from 'react';
+ * import { ThemeProvider } from 'react-native-ui-kitten';
+ * import { ReportTable } from './path-to/reportTable.component';
+ *
+ * export const CompactReport = (): React.ReactElement => {
+ *   // Buttons, inputs and list items of the table get smaller paddings and font sizes
+ *
+ *   return (
+ *     <ThemeProvider density='compact'>
+ *       <ReportTable/>
+ *     </ThemeProvider>
+ *   );
+ * };
+ * ```
+ */
+export class ThemeProvider extends React.PureComponent<ThemeProviderProps, State> {
+
+  static contextType: React.Context<ThemeType> = ThemeContext;
+
+  static defaultProps: Partial<ThemeProviderProps> = {
+    mode: 'system',
+    colorSchemeSource: new SystemColorSchemeSource(),
+  };
+
+  public state: State = {
+    colorScheme: this.props.colorSchemeSource.getColorScheme(),
+  };
+
+  private unsubscribe: () => void = null;
+  // Created once theme is changed, so that consumers can start transition while rendering with the next theme
+  private transitionState: ThemeTransitionState = null;
+  private runningTransition: ThemeTransitionState = null;
+  private mergedTheme: MergedTheme = null;
+
+  public componentDidMount(): void {
+    this.subscribe();
+
+    if (__DEV__) {
+      this.validate(this.mergeWithParent(this.getTargetTheme()));
+    }
+  }
+
+  public componentDidUpdate(prevProps: ThemeProviderProps, prevState: State): void {
+    const isModeChanged: boolean = prevProps.mode !== this.props.mode;
+    const isSourceChanged: boolean = prevProps.colorSchemeSource !== this.props.colorSchemeSource;
+    const isThemesProvided: boolean = !prevProps.themes !== !this.props.themes;
+
+    if (isModeChanged || isSourceChanged || isThemesProvided) {
+      this.subscribe();
+    }
+
+    // Theme provided to consumers may also change along with the parent one
+    const transition: ThemeTransitionState = this.transitionState;
+
+    if (transition && transition !== this.runningTransition && !transition.isFinished) {
+      this.startTransition(transition);
+    }
+
+    const prevTheme: ThemeType = this.getTargetTheme(prevProps, prevState);
+    const theme: ThemeType = this.getTargetTheme();
+
+    if (prevTheme !== theme && __DEV__) {
+      this.validate(this.mergeWithParent(theme));
+    }
+  }
+
+  public componentWillUnmount(): void {
+    this.removeSubscription();
+    this.stopTransition();
+  }
+
+  private subscribe = (): void => {
+    const { themes, mode, colorSchemeSource } = this.props;
+
+    this.removeSubscription();
+
+    if (themes && mode === 'system') {
+      this.unsubscribe = colorSchemeSource.subscribe(this.onColorSchemeChange);
+      this.onColorSchemeChange(colorSchemeSource.getColorScheme());
+    }
+  };
+
+  private removeSubscription = (): void => {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  };
+
+  private onColorSchemeChange = (colorScheme: ColorScheme): void => {
+    this.setState({ colorScheme });
+  };
+
+  private startTransition = (transition: ThemeTransitionState): void => {
+    const { duration, easing } = this.props.transition;
+
+    this.stopTransition();
+    this.runningTransition = transition;
+
+    Animated.timing(transition.progress, {
+      toValue: 1,
+      duration: duration,
+      easing: easing || Easing.linear,
+    }).start(() => {
+      transition.isFinished = true;
+    });
+  };
+
+  private stopTransition = (): void => {
+    if (this.runningTransition) {
+      this.runningTransition.progress.stopAnimation();
+      this.runningTransition.isFinished = true;
+      this.runningTransition = null;
+    }
+  };
+
+  private getTheme = (): ThemeType => {
+    return this.mergeWithParent(this.getTargetTheme());
+  };
+
+  /**
+   * Memoizes transition state for the theme provided to consumers.
+   * The one created on mount is finished, since there is nothing to transition from.
+   */
+  private getTransitionState = (theme: ThemeType): ThemeTransitionState | null => {
+    if (!this.props.transition) {
+      return null;
+    }
+
+    if (!this.transitionState || this.transitionState.theme !== theme) {
+      this.transitionState = {
+        theme,
+        progress: new Animated.Value(0),
+        isFinished: this.transitionState === null,
+      };
+    }
+
+    return this.transitionState;
+  };
+
+  /**
+   * Deep-merges theme with the one provided by parent ThemeProvider, if it presents.
+   * Memoizes the last result, so that consumers receive the same theme object until some of themes is changed.
+   */
+  private mergeWithParent = (theme: ThemeType): ThemeType => {
+    const parent: ThemeType = this.context;
+
+    if (!theme || !parent || Object.keys(parent).length === 0) {
+      return theme || parent;
+    }
+
+    const isCached: boolean = this.mergedTheme
+      && this.mergedTheme.parent === parent
+      && this.mergedTheme.theme === theme;
+
+    if (!isCached) {
+      this.mergedTheme = { parent, theme, value: merge({}, parent, theme) };
+    }
+
+    return this.mergedTheme.value;
+  };
+
+  private getTargetTheme = (props: ThemeProviderProps = this.props, state: State = this.state): ThemeType => {
+    const { theme, themes, mode } = props;
+
+    if (!themes) {
+      return theme;
+    }
+
+    const colorScheme: ColorScheme = mode === 'system' ? state.colorScheme : mode;
+
+    return themes[colorScheme];
+  };
+
+  private validate = (theme: ThemeType): void => {
+    const issues: ThemeIssue[] = theme ? validateTheme(theme) : [];
+
+    if (issues.length !== 0) {
+      const docRoot: string = 'https://akveo.github.io/react-native-ui-kitten/docs';
+
+      const message: string = [
+        'ThemeProvider: unsupported theme configuration.',
+        ...issues.map((issue: ThemeIssue): string => `- ${issue.message}`),
+        `📖 Documentation: ${docRoot}/design-system/custom-theme`,
+      ].join('\n');
+
+      console.error(message);
+    }
+  };
+
+  private renderDensityProvider = (children: React.ReactNode): React.ReactNode => {
+    const { density } = this.props;
+
+    return density ? (
+      <DensityContext.Provider value={density}>
+        {children}
+      </DensityContext.Provider>
+    ) : children;
+  };
 
   public render(): React.ReactNode {
-    const { theme, children } = this.props;
+    const theme: ThemeType = this.getTheme();
 
     return (
       <ThemeContext.Provider
         value={theme}>
-        {children}
+        <ThemeTransitionContext.Provider
+          value={this.getTransitionState(theme)}>
+          {this.renderDensityProvider(this.props.children)}
+        </ThemeTransitionContext.Provider>
       </ThemeContext.Provider>
     );
   }
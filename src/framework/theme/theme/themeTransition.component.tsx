@@ -0,0 +1,29 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import { useThemeTransition } from './themeTransition.hook';
+import { createStyleSheetInterpolation } from './themeTransition.service';
+import {
+  StyleSheetType,
+  ThemeType,
+} from './type';
+
+export interface StyleSheetTransitionProps {
+  style: StyleSheetType;
+  theme: ThemeType;
+  children: (style: StyleSheetType) => React.ReactElement;
+}
+
+/**
+ * Renders children with style sheet colors transitioned from the ones resolved with previous theme,
+ * once theme is changed by ThemeProvider declaring `transition`.
+ */
+export const StyleSheetTransition = (props: StyleSheetTransitionProps): React.ReactElement => {
+  const { style, theme, children } = props;
+
+  return children(useThemeTransition(style, theme, createStyleSheetInterpolation));
+};
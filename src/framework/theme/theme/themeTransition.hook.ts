@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import { ThemeTransitionContext } from './themeTransitionContext';
+import {
+  createTransitionSteps,
+  getTransitionStep,
+  ThemeInterpolation,
+  THEME_TRANSITION_STEPS,
+} from './themeTransition.service';
+import {
+  ThemeTransitionState,
+  ThemeType,
+} from './type';
+
+export type ThemeInterpolationFactory<T> = (from: T, to: T) => ThemeInterpolation<T> | null;
+
+interface State<T> {
+  theme: ThemeType;
+  transition: ThemeTransitionState | null;
+  // Values to transition through. Null if there is no transition in progress
+  steps: T[] | null;
+  step: number;
+}
+
+/**
+ * Hook which is used to transition a value resolved with theme, once theme is changed by ThemeProvider
+ * declaring `transition`.
+ *
+ * Steps are created from the value rendered with previous theme and are switched along with transition progress,
+ * so that only components which values change are re-rendered, and only once per step.
+ *
+ * @param value - Determines value resolved with `theme`, e.g style or style sheet.
+ *
+ * @param {ThemeType} theme - Determines theme `value` is resolved with.
+ *
+ * @param {ThemeInterpolationFactory} createInterpolation - Determines function which creates interpolation
+ * between two values, or returns null if there is nothing to interpolate.
+ *
+ * @return - Value to render.
+ */
+export const useThemeTransition = <T>(value: T,
+                                      theme: ThemeType,
+                                      createInterpolation: ThemeInterpolationFactory<T>): T => {
+
+  const transition: ThemeTransitionState | null = React.useContext(ThemeTransitionContext);
+  const renderedValue: React.MutableRefObject<T> = React.useRef<T>(value);
+
+  const [state, setState] = React.useState<State<T>>({ theme, transition: null, steps: null, step: 0 });
+
+  // Steps are created while rendering with the next theme, so that rendered value is never replaced at once
+  if (state.theme !== theme) {
+    const isTransitioned: boolean = transition !== null && transition.theme === theme && !transition.isFinished;
+    const interpolate: ThemeInterpolation<T> | null = isTransitioned
+      ? createInterpolation(renderedValue.current, value)
+      : null;
+
+    setState({
+      theme,
+      transition,
+      steps: interpolate ? createTransitionSteps(interpolate, value) : null,
+      step: 0,
+    });
+  }
+
+  const { steps, step } = state;
+
+  // Steps are dropped once value is changed by something else than theme, e.g interaction
+  const isStepped: boolean = steps !== null && steps[steps.length - 1] === value;
+  const nextValue: T = isStepped ? steps[step] : value;
+
+  React.useEffect(() => {
+    renderedValue.current = nextValue;
+
+    if (steps && !isStepped) {
+      setState({ ...state, steps: null, step: 0 });
+    }
+  });
+
+  React.useEffect(() => {
+    if (!steps) {
+      return;
+    }
+
+    const onProgress = ({ value: progress }: { value: number }): void => {
+      const nextStep: number = getTransitionStep(progress);
+
+      setState((current: State<T>): State<T> => {
+        if (current.steps !== steps || current.step === nextStep) {
+          return current;
+        }
+
+        return nextStep < THEME_TRANSITION_STEPS
+          ? { ...current, step: nextStep }
+          : { ...current, steps: null, step: 0 };
+      });
+    };
+
+    if (state.transition.isFinished) {
+      onProgress({ value: 1 });
+      return;
+    }
+
+    const listener: string = state.transition.progress.addListener(onProgress);
+
+    return (): void => {
+      state.transition.progress.removeListener(listener);
+    };
+  }, [steps]);
+
+  return nextValue;
+};
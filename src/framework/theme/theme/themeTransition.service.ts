@@ -0,0 +1,128 @@
+import {
+  mixColors,
+  parseColor,
+  RGBAColor,
+  toColorString,
+} from './color.service';
+import {
+  StyleSheetType,
+  ThemedStyleType,
+} from './type';
+
+interface ColorTransition {
+  key: string;
+  from: RGBAColor;
+  to: RGBAColor;
+}
+
+export type ThemeInterpolation<T> = (progress: number) => T;
+
+interface StyleSheetInterpolation {
+  [key: string]: ThemeInterpolation<ThemedStyleType>;
+}
+
+/**
+ * Number of intermediate values transition is split into.
+ * Themed components which styles change are re-rendered once per step, rather than on each animation frame.
+ */
+export const THEME_TRANSITION_STEPS: number = 8;
+
+/**
+ * Creates a function which interpolates color values of a style resolved with two different themes.
+ *
+ * Only keys which colors differ are interpolated.
+ * The rest of values are taken from `to` style.
+ *
+ * @param from: ThemedStyleType - style to start transition from
+ * @param to: ThemedStyleType - style to finish transition with
+ *
+ * @return ThemeInterpolation. Function which takes transition progress (from 0 to 1) and returns style.
+ * Null if there are no colors to interpolate
+ */
+export function createThemedStyleInterpolation(from: ThemedStyleType,
+                                               to: ThemedStyleType): ThemeInterpolation<ThemedStyleType> | null {
+
+  const transitions: ColorTransition[] = Object.keys(to).reduce((acc: ColorTransition[], key: string) => {
+    const fromColor: RGBAColor | undefined = from[key] !== to[key] ? parseColor(from[key]) : undefined;
+    const toColor: RGBAColor | undefined = fromColor ? parseColor(to[key]) : undefined;
+
+    if (!fromColor || !toColor) {
+      return acc;
+    }
+
+    return [...acc, { key, from: fromColor, to: toColor }];
+  }, []);
+
+  if (transitions.length === 0) {
+    return null;
+  }
+
+  return (progress: number): ThemedStyleType => {
+    return transitions.reduce((acc: ThemedStyleType, transition: ColorTransition): ThemedStyleType => {
+      const color: RGBAColor = mixColors(transition.from, transition.to, progress);
+
+      return { ...acc, [transition.key]: toColorString(color) };
+    }, { ...to });
+  };
+}
+
+/**
+ * Creates a function which interpolates color values of each style of a style sheet.
+ *
+ * @param from: StyleSheetType - style sheet to start transition from
+ * @param to: StyleSheetType - style sheet to finish transition with
+ *
+ * @return ThemeInterpolation. Function which takes transition progress (from 0 to 1) and returns style sheet.
+ * Null if there are no colors to interpolate
+ */
+export function createStyleSheetInterpolation(from: StyleSheetType,
+                                              to: StyleSheetType): ThemeInterpolation<StyleSheetType> | null {
+
+  const interpolations: StyleSheetInterpolation = Object.keys(to)
+    .reduce((acc: StyleSheetInterpolation, key: string): StyleSheetInterpolation => {
+      const interpolation: ThemeInterpolation<ThemedStyleType> | null = from[key] && to[key]
+        ? createThemedStyleInterpolation(from[key], to[key])
+        : null;
+
+      return interpolation ? { ...acc, [key]: interpolation } : acc;
+    }, {});
+
+  if (Object.keys(interpolations).length === 0) {
+    return null;
+  }
+
+  return (progress: number): StyleSheetType => {
+    return Object.keys(interpolations).reduce((acc: StyleSheetType, key: string): StyleSheetType => {
+      return { ...acc, [key]: interpolations[key](progress) };
+    }, { ...to });
+  };
+}
+
+/**
+ * Creates a fixed set of values to transition through.
+ *
+ * @param interpolate: ThemeInterpolation - function returning value for transition progress
+ * @param to: T - value to finish transition with
+ * @param count: number - number of steps
+ *
+ * @return T[]. `count + 1` values, where the last one is `to`
+ */
+export function createTransitionSteps<T>(interpolate: ThemeInterpolation<T>,
+                                         to: T,
+                                         count: number = THEME_TRANSITION_STEPS): T[] {
+
+  const steps: T[] = [];
+
+  for (let step: number = 0; step < count; step++) {
+    steps.push(interpolate(step / count));
+  }
+
+  return [...steps, to];
+}
+
+/**
+ * @return (number) - index of the step matching transition progress (from 0 to 1)
+ */
+export function getTransitionStep(progress: number, count: number = THEME_TRANSITION_STEPS): number {
+  return Math.min(Math.round(progress * count), count);
+}
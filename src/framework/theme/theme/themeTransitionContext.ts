@@ -0,0 +1,6 @@
+import React from 'react';
+import { ThemeTransitionState } from './type';
+
+const defaultValue: ThemeTransitionState | null = null;
+
+export const ThemeTransitionContext: React.Context<ThemeTransitionState | null> = React.createContext(defaultValue);
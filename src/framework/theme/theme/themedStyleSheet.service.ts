@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import {
+  StyleSheetType,
+  ThemeType,
+} from './type';
+import { isCacheableTheme } from './theme.service';
+import { createThemedStyleSheet } from '../style/style.service';
+
+export type ThemedStyleSheetFactory<T extends StyleSheetType> = (theme: ThemeType) => T;
+
+/**
+ * Singleton service designed to declare styles referencing theme values outside of components.
+ *
+ * @type ThemedStyleSheetType
+ *
+ * @method {(styles: StyleSheetType) => ThemedStyleSheetFactory} create - Creates a function resolving
+ * `$`-prefixed theme references of `styles` against the theme it is called with.
+ * Resolved styles are cached per theme object, so that calling it with the same theme returns the same styles.
+ * Since the returned function takes a theme, it can be used with `useStyleSheet` hook or `withStyles` function.
+ *
+ * @example Simple Usage example
+ *
+ * ```
+ * import React from 'react';
+ * import { View, ViewProps } from 'react-native';
+ * import { ThemedStyleSheet, useTheme } from 'react-native-ui-kitten';
+ *
+ * const themedStyles = ThemedStyleSheet.create({
+ *   container: {
+ *     padding: 16,
+ *     backgroundColor: '$background-basic-color-1',
+ *   },
+ * });
+ *
+ * export const Card = (props?: ViewProps): React.ReactElement<ViewProps> => {
+ *   const styles = themedStyles(useTheme());
+ *
+ *   return (
+ *     <View
+ *       {...props}
+ *       style={[styles.container, props.style]}
+ *     />
+ *   );
+ * };
+ * ```
+ */
+class ThemedStyleSheetType {
+
+  public create<T extends StyleSheetType>(styles: T): ThemedStyleSheetFactory<T> {
+    const cache: WeakMap<ThemeType, T> = new WeakMap();
+
+    return (theme: ThemeType): T => {
+      if (!isCacheableTheme(theme)) {
+        return createThemedStyleSheet(styles, theme);
+      }
+
+      if (!cache.has(theme)) {
+        cache.set(theme, createThemedStyleSheet(styles, theme));
+      }
+
+      return cache.get(theme);
+    };
+  }
+}
+
+export const ThemedStyleSheet = new ThemedStyleSheetType();
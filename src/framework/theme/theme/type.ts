@@ -1,5 +1,60 @@
+import { Animated } from 'react-native';
+
 export type ThemeType = any;
 
 export type ThemedStyleType = any;
 
 export type StyleSheetType = any;
+
+export enum ThemeIssueType {
+  CYCLIC_REFERENCE = 'cyclic-reference',
+  DANGLING_REFERENCE = 'dangling-reference',
+  INVALID_COLOR = 'invalid-color',
+  INVALID_EXPRESSION = 'invalid-expression',
+}
+
+export interface ThemeIssue {
+  type: ThemeIssueType;
+  key: string;
+  references: string[];
+  message: string;
+}
+
+export interface ThemeColors {
+  primary?: string;
+  success?: string;
+  info?: string;
+  warning?: string;
+  danger?: string;
+}
+
+export type ColorScheme = 'light' | 'dark';
+
+export type ThemeMode = ColorScheme | 'system';
+
+export interface ColorSchemeThemes {
+  light: ThemeType;
+  dark: ThemeType;
+}
+
+export interface ColorSchemeSource {
+  getColorScheme(): ColorScheme;
+
+  /**
+   * @return function which removes `listener`
+   */
+  subscribe(listener: (colorScheme: ColorScheme) => void): () => void;
+}
+
+export interface ThemeTransition {
+  duration: number;
+  easing?: (value: number) => number;
+}
+
+export interface ThemeTransitionState {
+  // Theme transition is running to
+  theme: ThemeType;
+  // Goes from 0 to 1 during transition
+  progress: Animated.Value;
+  isFinished: boolean;
+}
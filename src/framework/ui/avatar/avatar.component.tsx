@@ -17,12 +17,15 @@ import {
   StyleType,
 } from '@kitten/theme';
 
-interface ComponentProps {
-  shape?: string;
-  size?: string;
+interface ComponentProps<Shape extends string = string, Size extends string = string> {
+  shape?: Shape;
+  size?: Size;
 }
 
-export type AvatarProps = StyledComponentProps & ImageProps & ComponentProps;
+export type AvatarProps<Shape extends string = string,
+                        Size extends string = string,
+                        Appearance extends string = string> =
+  StyledComponentProps<Appearance> & ImageProps & ComponentProps<Shape, Size>;
 
 /**
  * Styled Image component.
@@ -31,15 +31,18 @@ type TextElement = React.ReactElement<TextProps>;
 type IconElement = React.ReactElement<ImageProps>;
 type IconProp = (style: ImageStyle) => IconElement;
 
-interface ComponentProps {
+interface ComponentProps<Status extends string = string, Size extends string = string> {
   textStyle?: StyleProp<TextStyle>;
   icon?: IconProp;
-  status?: string;
-  size?: string;
+  status?: Status;
+  size?: Size;
   children?: string;
 }
 
-export type ButtonProps = StyledComponentProps & TouchableOpacityProps & ComponentProps;
+export type ButtonProps<Status extends string = string,
+                        Size extends string = string,
+                        Appearance extends string = string> =
+  StyledComponentProps<Appearance> & TouchableOpacityProps & ComponentProps<Status, Size>;
 
 /**
  * Styled Button component.
@@ -125,7 +128,7 @@ export class ButtonComponent extends React.Component<ButtonProps> {
   };
 
   private onPressIn = (event: GestureResponderEvent) => {
-    this.props.dispatch([Interaction.ACTIVE]);
+    this.props.dispatch.add(Interaction.ACTIVE);
 
     if (this.props.onPressIn) {
       this.props.onPressIn(event);
@@ -133,7 +136,7 @@ export class ButtonComponent extends React.Component<ButtonProps> {
   };
 
   private onPressOut = (event: GestureResponderEvent) => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.ACTIVE);
 
     if (this.props.onPressOut) {
       this.props.onPressOut(event);
@@ -21,13 +21,16 @@ import { ButtonProps } from '../button/button.component';
 type ButtonElement = React.ReactElement<ButtonProps>;
 type ChildrenProp = ButtonElement | ButtonElement[];
 
-interface ComponentProps {
-  size?: string;
-  status?: string;
+interface ComponentProps<Status extends string = string, Size extends string = string> {
+  size?: Size;
+  status?: Status;
   children: ChildrenProp;
 }
 
-export type ButtonGroupProps = StyledComponentProps & ViewProps & ComponentProps;
+export type ButtonGroupProps<Status extends string = string,
+                             Size extends string = string,
+                             Appearance extends string = string> =
+  StyledComponentProps<Appearance> & ViewProps & ComponentProps<Status, Size>;
 
 /**
  * Renders a group of buttons.
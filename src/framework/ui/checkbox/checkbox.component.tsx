@@ -33,16 +33,18 @@ import { isValidString } from '../support/services';
 type IconElement = React.ReactElement<ViewProps>;
 type TextElement = React.ReactElement<TextProps>;
 
-interface ComponentProps {
+interface ComponentProps<Status extends string = string> {
   textStyle?: StyleProp<TextStyle>;
   text?: string;
   checked?: boolean;
   indeterminate?: boolean;
-  status?: string;
+  status?: Status;
   onChange?: (checked: boolean, indeterminate: boolean) => void;
 }
 
-export type CheckBoxProps = StyledComponentProps & TouchableOpacityProps & ComponentProps;
+export type CheckBoxProps<Status extends string = string,
+                          Appearance extends string = string> =
+  StyledComponentProps<Appearance> & TouchableOpacityProps & ComponentProps<Status>;
 
 /**
  * Styled CheckBox component.
@@ -119,7 +121,7 @@ class CheckBoxComponent extends React.Component<CheckBoxProps> {
   static styledComponentName: string = 'CheckBox';
 
   private onPress = () => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.ACTIVE);
 
     if (this.props.onChange) {
       this.props.onChange(!this.props.checked, false);
@@ -127,7 +129,7 @@ class CheckBoxComponent extends React.Component<CheckBoxProps> {
   };
 
   private onPressIn = (event: GestureResponderEvent) => {
-    this.props.dispatch([Interaction.ACTIVE]);
+    this.props.dispatch.add(Interaction.ACTIVE);
 
     if (this.props.onPressIn) {
       this.props.onPressIn(event);
@@ -135,7 +137,7 @@ class CheckBoxComponent extends React.Component<CheckBoxProps> {
   };
 
   private onPressOut = (event: GestureResponderEvent) => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.ACTIVE);
 
     if (this.props.onPressOut) {
       this.props.onPressOut(event);
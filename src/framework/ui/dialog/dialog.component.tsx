@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright Akveo. All Rights Reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ */
+
+import React from 'react';
+import {
+  Dimensions,
+  StyleSheet,
+  View,
+  ViewProps,
+} from 'react-native';
+import {
+  DialogProps,
+  DialogRenderer,
+} from '@kitten/theme';
+import { Button } from '../button/button.component';
+import { Input } from '../input/input.component';
+import { Layout } from '../layout/layout.component';
+import { Text } from '../text/text.component';
+
+const { width: screenWidth, height: screenHeight } = Dimensions.get('screen');
+
+const STATUS_DEFAULT: string = 'primary';
+const CONFIRM_TEXT_DEFAULT: string = 'OK';
+const CANCEL_TEXT_DEFAULT: string = 'CANCEL';
+
+export const dialogConfirmTestId: string = '@dialog/confirm';
+export const dialogCancelTestId: string = '@dialog/cancel';
+export const dialogInputTestId: string = '@dialog/input';
+
+interface State {
+  value: string;
+}
+
+/**
+ * Dialog component renders content of dialogs shown with `ModalService.alert`, `confirm` and `prompt`.
+ *
+ * @extends React.Component
+ *
+ * @property {string} type - Determines the kind of dialog. Can be `alert`, `confirm` or `prompt`.
+ *
+ * @property {PromptOptions} options - Determines title, message, status and button texts of dialog.
+ * `placeholder` and `defaultValue` are used by `prompt` dialog.
+ *
+ * @property {(value?: string) => void} onConfirm - Called when confirm button is pressed.
+ * Receives entered text in case of `prompt` dialog.
+ *
+ * @property {() => void} onCancel - Called when cancel button is pressed.
+ */
+export class Dialog extends React.Component<DialogProps, State> {
+
+  public state: State = {
+    value: this.props.options.defaultValue || '',
+  };
+
+  private onConfirmPress = (): void => {
+    const { type, onConfirm } = this.props;
+
+    onConfirm(type === 'prompt' ? this.state.value : undefined);
+  };
+
+  private onCancelPress = (): void => {
+    this.props.onCancel();
+  };
+
+  private onChangeText = (value: string): void => {
+    this.setState({ value });
+  };
+
+  private renderInput = (): React.ReactElement => {
+    const { options } = this.props;
+
+    return (
+      <Input
+        testID={dialogInputTestId}
+        style={styles.input}
+        autoFocus={true}
+        status={options.status}
+        placeholder={options.placeholder}
+        value={this.state.value}
+        onChangeText={this.onChangeText}
+      />
+    );
+  };
+
+  private renderCancelButton = (): React.ReactElement => {
+    const { options } = this.props;
+
+    return (
+      <Button
+        testID={dialogCancelTestId}
+        style={styles.button}
+        appearance='ghost'
+        onPress={this.onCancelPress}>
+        {options.cancelText || CANCEL_TEXT_DEFAULT}
+      </Button>
+    );
+  };
+
+  public render(): React.ReactElement<ViewProps> {
+    const { type, options } = this.props;
+
+    return (
+      <View style={styles.backdrop}>
+        <Layout style={styles.container}>
+          {!!options.title && <Text category='h6'>{options.title}</Text>}
+          {!!options.message && <Text style={styles.message}>{options.message}</Text>}
+          {type === 'prompt' && this.renderInput()}
+          <View style={styles.buttonGroup}>
+            {type !== 'alert' && this.renderCancelButton()}
+            <Button
+              testID={dialogConfirmTestId}
+              style={styles.button}
+              status={options.status || STATUS_DEFAULT}
+              onPress={this.onConfirmPress}>
+              {options.confirmText || CONFIRM_TEXT_DEFAULT}
+            </Button>
+          </View>
+        </Layout>
+      </View>
+    );
+  }
+}
+
+/**
+ * Renders dialogs shown with `ModalService` with Dialog component.
+ * Is designed to be passed as `dialogRenderer` property of ApplicationProvider.
+ */
+export const renderDialog: DialogRenderer = (props: DialogProps): React.ReactElement => <Dialog {...props}/>;
+
+const styles = StyleSheet.create({
+  backdrop: {
+    position: 'absolute',
+    width: screenWidth,
+    height: screenHeight,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    width: screenWidth * 0.8,
+    padding: 16,
+    borderRadius: 8,
+  },
+  message: {
+    marginTop: 8,
+  },
+  input: {
+    marginTop: 16,
+  },
+  buttonGroup: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  button: {
+    marginLeft: 8,
+  },
+});
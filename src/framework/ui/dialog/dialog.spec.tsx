@@ -0,0 +1,221 @@
+import React from 'react';
+import { View } from 'react-native';
+import {
+  fireEvent,
+  render,
+  RenderAPI,
+} from 'react-native-testing-library';
+import { ReactTestInstance } from 'react-test-renderer';
+import {
+  ApplicationProvider,
+  DialogProps,
+  ModalService,
+} from '@kitten/theme';
+import {
+  Dialog,
+  dialogCancelTestId,
+  dialogConfirmTestId,
+  dialogInputTestId,
+  renderDialog,
+} from './dialog.component';
+import { Button } from '../button/button.component';
+import { Text } from '../text/text.component';
+import {
+  mapping,
+  theme,
+} from '../support/tests';
+
+// Rendered applications, which are unmounted after each test along with their dialog renderers
+let applications: RenderAPI[] = [];
+
+const renderApplication = (): RenderAPI => {
+  const application: RenderAPI = render(
+    <ApplicationProvider
+      mapping={mapping}
+      theme={theme}
+      dialogRenderer={renderDialog}>
+      <View/>
+    </ApplicationProvider>,
+  );
+
+  applications = [...applications, application];
+
+  return application;
+};
+
+describe('@dialog: service checks', () => {
+
+  afterEach(() => {
+    applications.forEach((application: RenderAPI) => application.unmount());
+    applications = [];
+  });
+
+  it('* alert resolves once confirmed', async () => {
+    const component: RenderAPI = renderApplication();
+
+    const result: Promise<void> = ModalService.alert({ title: 'Title', message: 'Message' });
+
+    expect(component.getByText('Title')).toBeTruthy();
+    expect(component.getByText('Message')).toBeTruthy();
+    expect(component.queryAllByTestId(dialogCancelTestId).length).toEqual(0);
+
+    fireEvent.press(component.getByTestId(dialogConfirmTestId));
+
+    await expect(result).resolves.toBeUndefined();
+    expect(component.queryAllByType(Dialog).length).toEqual(0);
+  });
+
+  it('* confirm resolves with user choice', async () => {
+    const component: RenderAPI = renderApplication();
+
+    const confirmed: Promise<boolean> = ModalService.confirm({ title: 'Remove?' });
+    fireEvent.press(component.getByTestId(dialogConfirmTestId));
+
+    const cancelled: Promise<boolean> = ModalService.confirm({ title: 'Remove?' });
+    fireEvent.press(component.getByTestId(dialogCancelTestId));
+
+    await expect(confirmed).resolves.toEqual(true);
+    await expect(cancelled).resolves.toEqual(false);
+    expect(component.queryAllByType(Dialog).length).toEqual(0);
+  });
+
+  it('* prompt resolves with entered text', async () => {
+    const component: RenderAPI = renderApplication();
+
+    const entered: Promise<string | null> = ModalService.prompt({ defaultValue: 'Kitten' });
+
+    expect(component.getByTestId(dialogInputTestId).props.value).toEqual('Kitten');
+
+    fireEvent.changeText(component.getByTestId(dialogInputTestId), 'UI Kitten');
+    fireEvent.press(component.getByTestId(dialogConfirmTestId));
+
+    const cancelled: Promise<string | null> = ModalService.prompt({ title: 'Name' });
+    fireEvent.press(component.getByTestId(dialogCancelTestId));
+
+    await expect(entered).resolves.toEqual('UI Kitten');
+    await expect(cancelled).resolves.toEqual(null);
+  });
+
+  it('* renders confirm button with status', async () => {
+    const component: RenderAPI = renderApplication();
+
+    const confirmed: Promise<boolean> = ModalService.confirm({
+      status: 'danger',
+      confirmText: 'REMOVE',
+      cancelText: 'KEEP',
+    });
+
+    const confirmButton: ReactTestInstance = component.getAllByType(Button).find((button: ReactTestInstance) => {
+      return button.props.testID === dialogConfirmTestId;
+    });
+
+    expect(confirmButton.props.status).toEqual('danger');
+    expect(component.getByText('REMOVE')).toBeTruthy();
+    expect(component.getByText('KEEP')).toBeTruthy();
+
+    ModalService.hideAll();
+
+    await expect(confirmed).resolves.toEqual(false);
+  });
+
+  it('* does not render empty title and message', () => {
+    const component: RenderAPI = renderApplication();
+
+    ModalService.alert({ title: '', message: '' });
+
+    const dialog: ReactTestInstance = component.getByType(Dialog);
+
+    expect(dialog.findAllByType(Text).length).toEqual(1);
+
+    ModalService.hideAll();
+  });
+
+  it('* cancels dialog once it is hidden', async () => {
+    const component: RenderAPI = renderApplication();
+
+    const confirmed: Promise<boolean> = ModalService.confirm({ title: 'Remove?' });
+    const entered: Promise<string | null> = ModalService.prompt({ title: 'Name' });
+
+    ModalService.hideAll();
+
+    await expect(confirmed).resolves.toEqual(false);
+    await expect(entered).resolves.toEqual(null);
+    expect(component.queryAllByType(Dialog).length).toEqual(0);
+  });
+
+  it('* cancels dialog once its host is unmounted', async () => {
+    const component: RenderAPI = renderApplication();
+
+    const entered: Promise<string | null> = ModalService.prompt({ title: 'Name' });
+
+    component.unmount();
+
+    await expect(entered).resolves.toEqual(null);
+  });
+
+  it('* cancels dialog on request close', async () => {
+    const component: RenderAPI = renderApplication();
+    const show = jest.spyOn(ModalService, 'show');
+
+    const confirmed: Promise<boolean> = ModalService.confirm({ title: 'Remove?' });
+
+    const [, config] = show.mock.calls[0];
+    config.onRequestClose();
+
+    await expect(confirmed).resolves.toEqual(false);
+    expect(component.queryAllByType(Dialog).length).toEqual(0);
+
+    show.mockRestore();
+  });
+
+  it('* renders dialog with the most recently registered renderer', () => {
+    const customRenderer = jest.fn((props: DialogProps): React.ReactElement => <Text>Custom</Text>);
+
+    const custom: RenderAPI = render(
+      <ApplicationProvider
+        mapping={mapping}
+        theme={theme}
+        dialogRenderer={customRenderer}>
+        <View/>
+      </ApplicationProvider>,
+    );
+
+    ModalService.alert({ title: 'Title' });
+
+    expect(customRenderer).toHaveBeenCalled();
+    expect(custom.getByText('Custom')).toBeTruthy();
+    expect(custom.queryAllByType(Dialog).length).toEqual(0);
+
+    custom.unmount();
+
+    const component: RenderAPI = renderApplication();
+
+    ModalService.alert({ title: 'Title' });
+
+    expect(component.getByType(Dialog)).toBeTruthy();
+
+    ModalService.hideAll();
+  });
+
+  it('* does not show dialog without dialog renderer', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => null);
+
+    const component: RenderAPI = render(
+      <ApplicationProvider
+        mapping={mapping}
+        theme={theme}>
+        <View/>
+      </ApplicationProvider>,
+    );
+
+    const confirmed: Promise<boolean> = ModalService.confirm({ title: 'Remove?' });
+
+    await expect(confirmed).resolves.toEqual(false);
+    expect(component.queryAllByType(Dialog).length).toEqual(0);
+    expect(warn).toHaveBeenCalled();
+
+    warn.mockRestore();
+    component.unmount();
+  });
+
+});
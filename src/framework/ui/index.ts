@@ -22,6 +22,10 @@ export {
   CheckBox,
   CheckBoxProps,
 } from './checkbox/checkbox.component';
+export {
+  Dialog,
+  renderDialog,
+} from './dialog/dialog.component';
 export {
   Input,
   InputProps,
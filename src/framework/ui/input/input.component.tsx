@@ -42,9 +42,9 @@ type TextElement = React.ReactElement<TextProps>;
 type IconElement = React.ReactElement<ImageProps>;
 type IconProp = (style: StyleType) => IconElement;
 
-interface ComponentProps {
-  status?: string;
-  size?: string;
+interface ComponentProps<Status extends string = string, Size extends string = string> {
+  status?: Status;
+  size?: Size;
   disabled?: boolean;
   label?: string;
   caption?: string;
@@ -56,7 +56,10 @@ interface ComponentProps {
   onIconPress?: (event: GestureResponderEvent) => void;
 }
 
-export type InputProps = StyledComponentProps & TextInputProps & ComponentProps;
+export type InputProps<Status extends string = string,
+                       Size extends string = string,
+                       Appearance extends string = string> =
+  StyledComponentProps<Appearance> & TextInputProps & ComponentProps<Status, Size>;
 
 /**
  * Styled Input component.
@@ -172,7 +175,7 @@ export class InputComponent extends React.Component<InputProps> {
   };
 
   private onFocus = (event: InputFocusEvent) => {
-    this.props.dispatch([Interaction.FOCUSED]);
+    this.props.dispatch.add(Interaction.FOCUSED);
 
     if (this.props.onFocus) {
       this.props.onFocus(event);
@@ -180,7 +183,7 @@ export class InputComponent extends React.Component<InputProps> {
   };
 
   private onBlur = (event: InputFocusEvent) => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.FOCUSED);
 
     if (this.props.onBlur) {
       this.props.onBlur(event);
@@ -20,12 +20,14 @@ import {
 type ChildElement = React.ReactElement<any>;
 type ChildrenProp = ChildElement | ChildElement[];
 
-interface ComponentProps {
-  level?: string;
+interface ComponentProps<Level extends string = string> {
+  level?: Level;
   children?: ChildrenProp;
 }
 
-export type LayoutProps = StyledComponentProps & ViewProps & ComponentProps;
+export type LayoutProps<Level extends string = string,
+                        Appearance extends string = string> =
+  StyledComponentProps<Appearance> & ViewProps & ComponentProps<Level>;
 
 /**
  * Layout container component. Behaves like React Native View.
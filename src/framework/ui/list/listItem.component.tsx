@@ -190,7 +190,7 @@ export class ListItemComponent extends React.Component<ListItemProps> {
   };
 
   private onPressIn = (event: GestureResponderEvent) => {
-    this.props.dispatch([Interaction.ACTIVE]);
+    this.props.dispatch.add(Interaction.ACTIVE);
 
     if (this.props.onPressIn) {
       this.props.onPressIn(this.props.index, event);
@@ -198,7 +198,7 @@ export class ListItemComponent extends React.Component<ListItemProps> {
   };
 
   private onPressOut = (event: GestureResponderEvent) => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.ACTIVE);
 
     if (this.props.onPressOut) {
       this.props.onPressOut(this.props.index, event);
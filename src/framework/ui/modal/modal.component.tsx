@@ -63,6 +63,16 @@ export type ModalProps = ViewProps & ComponentProps & ModalPresentingBased;
  * @property {() => void} onBackdropPress - Determines component's behavior when the user is
  * tapping on back-drop.
  *
+ * @property {() => void} onRequestClose - Determines component's behavior when the user is
+ * pressing Android hardware back button. If not provided, `onBackdropPress` is called in case back-drop is allowed.
+ * Otherwise, back button press is left to be handled by navigation.
+ *
+ * @property {ModalAnimation} animation - Determines how component appears and disappears.
+ * `preset` can be `fade`, `scale`, `slide-up` or `none`. Default is `none`.
+ *
+ * @property {string} hostName - Determines the name of `PortalHost` to render component in.
+ * By default, component is rendered in application root.
+ *
  * @property ViewProps
  *
  * @example Modal usage and API example
@@ -106,16 +116,31 @@ export class Modal extends React.Component<ModalProps> {
   private contentSize: Size = initialContentSize;
   private id: string = '';
 
-  public componentWillReceiveProps(nextProps: ModalProps): void {
-    this.handleVisibility(nextProps);
+  public componentDidMount(): void {
+    if (this.props.visible) {
+      this.handleVisibility();
+    }
+  }
+
+  public componentDidUpdate(): void {
+    this.handleVisibility();
   }
 
-  private handleVisibility = (nextProps: ModalProps): void => {
-    const { allowBackdrop, onBackdropPress } = this.props;
+  private handleVisibility = (): void => {
+    const { visible, allowBackdrop, onBackdropPress, onRequestClose, animation, hostName } = this.props;
 
-    if (nextProps.visible) {
+    // Content is updated in place once modal is already shown, so that it is not shown twice
+    if (visible && ModalService.isShown(this.id)) {
+      ModalService.update(this.id, this.renderModal());
+    } else if (visible) {
       const element: React.ReactElement = this.renderModal();
-      this.id = ModalService.show(element, { allowBackdrop, onBackdropPress });
+      this.id = ModalService.show(element, {
+        allowBackdrop,
+        onBackdropPress,
+        onRequestClose,
+        animation,
+        hostName,
+      });
     } else {
       ModalService.hide(this.id);
       this.id = '';
@@ -133,6 +158,11 @@ export class Modal extends React.Component<ModalProps> {
 
   private onMeasure = (result: MeasureResult): void => {
     this.contentSize = result[TAG_CHILD].size;
+
+    // Modal shown before it is measured, e.g on mount, is re-positioned with the measured size
+    if (ModalService.isShown(this.id)) {
+      ModalService.update(this.id, this.renderModal());
+    }
   };
 
   private renderBaseModal = (): React.ReactElement<ViewProps> => {
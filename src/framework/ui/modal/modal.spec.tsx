@@ -15,7 +15,11 @@ import {
   Modal,
   baseModalTestId,
 } from './modal.component';
-import { StyleType } from '@kitten/theme';
+import {
+  ModalPanel,
+  ModalService,
+  StyleType,
+} from '@kitten/theme';
 
 const buttonShowModalTestId: string = '@button-show-modal';
 const buttonHideModalTestId: string = '@button-hide-modal';
@@ -74,6 +78,22 @@ describe('@modal component checks', () => {
     expect(component.getByType(Modal).props.visible).toBe(false);
   });
 
+  it('* shows modal visible on mount', () => {
+    const component: RenderAPI = render(
+      <ModalPanel>
+        <Modal visible={true}>
+          <Text>Test Modal</Text>
+        </Modal>
+      </ModalPanel>,
+    );
+
+    const modalInstance: any = component.getByType(Modal).instance;
+
+    expect(ModalService.isShown(modalInstance.id)).toEqual(true);
+
+    component.unmount();
+  });
+
   it('* modal default center placement calculated properly', () => {
     const { width, height } = Dimensions.get('screen');
     const modalStyle: StyleType = {
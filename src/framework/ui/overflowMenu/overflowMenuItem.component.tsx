@@ -80,7 +80,7 @@ export class OverflowMenuItemComponent extends React.Component<OverflowMenuItemP
   };
 
   private onPressIn = (event: GestureResponderEvent) => {
-    this.props.dispatch([Interaction.ACTIVE]);
+    this.props.dispatch.add(Interaction.ACTIVE);
 
     if (this.props.onPressIn) {
       this.props.onPressIn(this.props.index, event);
@@ -88,7 +88,7 @@ export class OverflowMenuItemComponent extends React.Component<OverflowMenuItemP
   };
 
   private onPressOut = (event: GestureResponderEvent) => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.ACTIVE);
 
     if (this.props.onPressOut) {
       this.props.onPressOut(this.props.index, event);
@@ -73,6 +73,16 @@ const PLACEMENT_DEFAULT: PopoverPlacement = PopoverPlacements.BOTTOM;
  * @property {number} indicatorOffset - Determines the offset of indicator (arrow).
  * @property {StyleProp<ViewStyle>} indicatorStyle - Determines style of indicator (arrow).
  *
+ * @property {() => void} onRequestClose - Determines component's behavior when the user is
+ * pressing Android hardware back button. If not provided, `onBackdropPress` is called in case back-drop is allowed.
+ * Otherwise, back button press is left to be handled by navigation.
+ *
+ * @property {ModalAnimation} animation - Determines how popover appears and disappears.
+ * `preset` can be `fade`, `scale`, `slide-up` or `none`. Default is `none`.
+ *
+ * @property {string} hostName - Determines the name of `PortalHost` to render popover in,
+ * e.g to keep it within a nested navigator screen. By default, popover is rendered in application root.
+ *
  * @property ViewProps
  *
  * @property ModalPresentingBased
@@ -185,7 +195,7 @@ export class PopoverComponent extends React.Component<PopoverProps> {
   };
 
   private showPopoverModal = (element: MeasuredElement, layout: MeasureResult): string => {
-    const { placement, allowBackdrop, onBackdropPress } = this.props;
+    const { placement, allowBackdrop, onBackdropPress, onRequestClose, animation, hostName } = this.props;
 
     const popoverFrame: Frame = this.getPopoverFrame(layout, placement);
 
@@ -204,6 +214,9 @@ export class PopoverComponent extends React.Component<PopoverProps> {
     return ModalService.show(popover, {
       allowBackdrop,
       onBackdropPress,
+      onRequestClose,
+      animation,
+      hostName,
     });
   };
 
@@ -30,15 +30,17 @@ import { isValidString } from '../support/services';
 
 type TextElement = React.ReactElement<TextProps>;
 
-interface ComponentProps {
+interface ComponentProps<Status extends string = string> {
   textStyle?: StyleProp<TextStyle>;
   text?: string;
   checked?: boolean;
-  status?: string;
+  status?: Status;
   onChange?: (selected: boolean) => void;
 }
 
-export type RadioProps = StyledComponentProps & TouchableOpacityProps & ComponentProps;
+export type RadioProps<Status extends string = string,
+                       Appearance extends string = string> =
+  StyledComponentProps<Appearance> & TouchableOpacityProps & ComponentProps<Status>;
 
 /**
  * Styled Radio component.
@@ -120,7 +122,7 @@ export class RadioComponent extends React.Component<RadioProps> {
   };
 
   private onPressIn = (event: GestureResponderEvent) => {
-    this.props.dispatch([Interaction.ACTIVE]);
+    this.props.dispatch.add(Interaction.ACTIVE);
 
     if (this.props.onPressIn) {
       this.props.onPressIn(event);
@@ -128,7 +130,7 @@ export class RadioComponent extends React.Component<RadioProps> {
   };
 
   private onPressOut = (event: GestureResponderEvent) => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.ACTIVE);
 
     if (this.props.onPressOut) {
       this.props.onPressOut(event);
@@ -5,6 +5,7 @@ import {
   TextInputFocusEventData,
   TouchableOpacityProps,
 } from 'react-native';
+import { ModalAnimation } from '@kitten/theme';
 
 export type Omit<T, K> = Pick<T, Exclude<keyof T, K>>;
 export type Override<T, U> = Omit<T, keyof U> & U;
@@ -22,4 +23,7 @@ export type InputFocusEvent = NativeSyntheticEvent<TextInputFocusEventData>;
 export interface ModalPresentingBased {
   allowBackdrop?: boolean;
   onBackdropPress: () => void;
+  onRequestClose?: () => void;
+  animation?: ModalAnimation;
+  hostName?: string;
 }
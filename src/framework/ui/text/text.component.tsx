@@ -14,13 +14,16 @@ import {
   StyledComponentProps,
 } from '@kitten/theme';
 
-interface ComponentProps {
-  category?: string;
-  status?: string;
+interface ComponentProps<Category extends string = string, Status extends string = string> {
+  category?: Category;
+  status?: Status;
   children?: string;
 }
 
-export type TextProps = StyledComponentProps & RNTextProps & ComponentProps;
+export type TextProps<Category extends string = string,
+                      Status extends string = string,
+                      Appearance extends string = string> =
+  StyledComponentProps<Appearance> & RNTextProps & ComponentProps<Category, Status>;
 
 /**
  * Styled Text component.
@@ -26,15 +26,18 @@ import {
 } from '@kitten/theme';
 import { CheckMark } from '../support/components';
 
-interface ComponentProps {
+interface ComponentProps<Status extends string = string, Size extends string = string> {
   checked?: boolean;
   disabled?: boolean;
-  status?: string;
-  size?: string;
+  status?: Status;
+  size?: Size;
   onChange?: (checked: boolean) => void;
 }
 
-export type ToggleProps = StyledComponentProps & ViewProps & ComponentProps;
+export type ToggleProps<Status extends string = string,
+                        Size extends string = string,
+                        Appearance extends string = string> =
+  StyledComponentProps<Appearance> & ViewProps & ComponentProps<Status, Size>;
 
 /**
  * Styled Toggle component.
@@ -169,11 +172,11 @@ export class ToggleComponent extends React.Component<ToggleProps> implements Pan
   };
 
   private onPressIn = () => {
-    this.props.dispatch([Interaction.ACTIVE]);
+    this.props.dispatch.add(Interaction.ACTIVE);
   };
 
   private onPressOut = () => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.ACTIVE);
   };
 
   private onPress = () => {
@@ -56,7 +56,7 @@ class TopNavigationActionComponent extends React.Component<TopNavigationActionPr
   };
 
   private onPressIn = (event: GestureResponderEvent) => {
-    this.props.dispatch([Interaction.ACTIVE]);
+    this.props.dispatch.add(Interaction.ACTIVE);
 
     if (this.props.onPressIn) {
       this.props.onPressIn(event);
@@ -64,7 +64,7 @@ class TopNavigationActionComponent extends React.Component<TopNavigationActionPr
   };
 
   private onPressOut = (event: GestureResponderEvent) => {
-    this.props.dispatch([]);
+    this.props.dispatch.remove(Interaction.ACTIVE);
 
     if (this.props.onPressOut) {
       this.props.onPressOut(event);